@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server';
+import { EmployeeAttendance } from '@/lib/attendance';
+import { DirectoryEmployee, parseDirectoryCsv } from '@/lib/employee-directory';
+import { processExcel } from '@/lib/excel-processor';
+import { Justification } from '@/lib/justifications';
+import { validateAttendanceFile } from '@/lib/file-formats';
+import { ConfigIssue, justificationsSchema, parseProcessConfig, toConfigIssues } from '@/lib/process-config';
+import { filterRecordsForUser } from '@/lib/roles';
+import { authenticateRequest } from '@/lib/server-auth';
+
+// SheetJS and the processor need Node APIs, not the edge runtime.
+export const runtime = 'nodejs';
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+// Whole request body: the file plus room for the other form fields.
+const MAX_REQUEST_BYTES = MAX_UPLOAD_BYTES + 5 * 1024 * 1024;
+
+export type ProcessErrorCode =
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'unavailable'
+  | 'invalid_request'
+  | 'invalid_config'
+  | 'invalid_directory'
+  | 'invalid_justifications'
+  | 'file_too_large'
+  | 'unsupported_file'
+  | 'processing_failed';
+
+export interface ProcessErrorResponse {
+  error: {
+    code: ProcessErrorCode;
+    message: string;
+    // Per-field problems for `invalid_config` and `invalid_justifications`, per-row problems for `invalid_directory`.
+    issues?: ConfigIssue[];
+  };
+}
+
+export interface ProcessSuccessResponse {
+  records: EmployeeAttendance[];
+}
+
+function errorResponse(status: number, code: ProcessErrorCode, message: string, issues?: ConfigIssue[]) {
+  const body: ProcessErrorResponse = { error: { code, message, ...(issues ? { issues } : {}) } };
+  return NextResponse.json(body, { status });
+}
+
+/**
+ * POST /api/attendance/process
+ *
+ * Requires `Authorization: Bearer <Firebase ID token>` of a user with a role; department heads only get the
+ * employees of their departments.
+ *
+ * multipart/form-data with:
+ * - `file`: the attendance workbook (.xlsx, .xls, .ods or .csv).
+ * - `config`: JSON ProcessConfig, e.g. {"sheetName": "Registros", "startDate": "2025-07-01", "endDate": "2025-07-31"}.
+ *   `policy` is optional and defaults to the standard schedule.
+ * - `directory` (optional): employee directory CSV to reconcile the sheet against.
+ * - `justifications` (optional): JSON array of justifications (vacation, sick leave...) to apply.
+ *
+ * 200 returns { records }. Errors return { error: { code, message, issues? } } with status 400 (invalid_request),
+ * 401 (unauthenticated), 403 (forbidden), 413 (file_too_large), 415 (unsupported_file), 422 (invalid_config,
+ * invalid_directory, invalid_justifications, processing_failed) or 503 (unavailable). See docs/api.md.
+ */
+export async function POST(request: Request) {
+  const auth = await authenticateRequest(request);
+  if ('error' in auth) {
+    const status = auth.error === 'unauthenticated' ? 401 : auth.error === 'forbidden' ? 403 : 503;
+    return errorResponse(status, auth.error, auth.message);
+  }
+
+  // Reject oversized uploads before formData() buffers the body. Requests without a Content-Length (chunked) are
+  // still checked against MAX_UPLOAD_BYTES once parsed.
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > MAX_REQUEST_BYTES) {
+    return errorResponse(413, 'file_too_large', `The file exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB limit.`);
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return errorResponse(400, 'invalid_request', 'The request body must be multipart/form-data.');
+  }
+
+  const file = form.get('file');
+  if (!(file instanceof File)) {
+    return errorResponse(400, 'invalid_request', 'Missing "file" field with the workbook.');
+  }
+
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return errorResponse(413, 'file_too_large', `The file exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB limit.`);
+  }
+
+  const rawConfig = form.get('config');
+  if (typeof rawConfig !== 'string') {
+    return errorResponse(400, 'invalid_request', 'Missing "config" field with the JSON processing settings.');
+  }
+
+  let configInput: unknown;
+  try {
+    configInput = JSON.parse(rawConfig);
+  } catch {
+    return errorResponse(400, 'invalid_request', 'The "config" field is not valid JSON.');
+  }
+
+  const parsed = parseProcessConfig(configInput);
+  if ('issues' in parsed) {
+    return errorResponse(422, 'invalid_config', 'The processing settings are not valid.', parsed.issues);
+  }
+
+  let directory: DirectoryEmployee[] | undefined;
+  const rawDirectory = form.get('directory');
+  if (rawDirectory !== null) {
+    const text = typeof rawDirectory === 'string' ? rawDirectory : await rawDirectory.text();
+    const { employees, errors } = parseDirectoryCsv(text);
+    if (errors.length > 0) {
+      const issues = errors.map(message => ({ path: 'directory', message }));
+      return errorResponse(422, 'invalid_directory', 'The employee directory is not valid.', issues);
+    }
+    directory = employees;
+  }
+
+  let justifications: Justification[] | undefined;
+  const rawJustifications = form.get('justifications');
+  if (rawJustifications !== null) {
+    let input: unknown;
+    try {
+      input = JSON.parse(typeof rawJustifications === 'string' ? rawJustifications : await rawJustifications.text());
+    } catch {
+      return errorResponse(400, 'invalid_request', 'The "justifications" field is not valid JSON.');
+    }
+    const result = justificationsSchema.safeParse(input);
+    if (!result.success) {
+      const issues = toConfigIssues(result.error).map(issue => ({ ...issue, path: ['justifications', issue.path].filter(Boolean).join('.') }));
+      return errorResponse(422, 'invalid_justifications', 'The justifications are not valid.', issues);
+    }
+    justifications = result.data;
+  }
+
+  const fileError = await validateAttendanceFile(file);
+  if (fileError) {
+    return errorResponse(415, 'unsupported_file', fileError);
+  }
+
+  try {
+    const records = await processExcel(file, parsed.config, { directory, justifications });
+    const body: ProcessSuccessResponse = { records: filterRecordsForUser(records, auth.profile) };
+    return NextResponse.json(body);
+  } catch (error: any) {
+    return errorResponse(422, 'processing_failed', error.message || 'The workbook could not be processed.');
+  }
+}
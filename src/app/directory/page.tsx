@@ -0,0 +1,26 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import EmployeeDirectoryTable from '@/components/employee-directory-table';
+import { Button } from '@/components/ui/button';
+
+export default function DirectoryPage() {
+  return (
+    <main className="min-h-screen bg-background text-foreground p-4 sm:p-6 md:p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <header className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between py-8">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tighter text-foreground sm:text-5xl">Directorio de Empleados</h1>
+            <p className="text-muted-foreground mt-4 max-w-2xl">Catálogo maestro por ID del reloj, usado para corregir nombres y departamentos y detectar empleados sin registros.</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Volver al Extractor
+            </Link>
+          </Button>
+        </header>
+        <EmployeeDirectoryTable />
+      </div>
+    </main>
+  );
+}
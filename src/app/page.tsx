@@ -1,10 +1,12 @@
 import ExcelExtractor from '@/components/excel-extractor';
 
-export default function Home() {
+export default async function Home({ searchParams }: { searchParams: Promise<{ run?: string }> }) {
+  const { run } = await searchParams;
+
   return (
     <main className="min-h-screen bg-background text-foreground p-4 sm:p-6 md:p-8">
       <div className="max-w-7xl mx-auto">
-        <ExcelExtractor />
+        <ExcelExtractor runId={run} />
       </div>
     </main>
   );
@@ -0,0 +1,217 @@
+import { readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { buildCsv } from '@/lib/csv-utils';
+import { buildXlsxWorkbook } from '@/lib/xlsx-utils';
+import { detectFileFormat, validateFileContent } from '@/lib/file-formats';
+import { formatSource } from '@/lib/attendance-table';
+import { DirectoryEmployee, parseDirectoryCsv } from '@/lib/employee-directory';
+import { BatchResult, WorkbookSource, inspectWorkbook, processBatch } from '@/lib/excel-processor';
+import { ConfigIssue, extractionConfigSchema, justificationsSchema, toConfigIssues } from '@/lib/process-config';
+import { ReportPeriod, coverPeriods } from '@/lib/period';
+
+// Runs the attendance extraction over a directory of workbooks for scheduled jobs. Exit codes:
+// 0 = every sheet processed, 1 = some file or sheet failed (the rest is still written), 2 = invalid options.
+
+const USAGE = `Usage: npm run extract -- <directory|file>... [options]
+
+Options:
+  -s, --sheet <name>      Sheet to read from every workbook (repeatable). Default: the first sheet.
+      --start <date>      First day of the period (yyyy-MM-dd). Default: detected from the sheet header.
+      --end <date>        Last day of the period (yyyy-MM-dd). Default: detected from the sheet header.
+  -p, --policy <file>     JSON schedule policy; omitted fields use the defaults.
+      --holidays <file>   JSON holiday calendar (presets and company days).
+  -d, --directory <file>  Employee directory CSV to reconcile IDs, names and departments against.
+  -j, --justifications <file>  JSON list of justifications (vacation, sick leave...) to apply.
+  -f, --format <format>   csv, json or xlsx (repeatable). Default: csv.
+  -o, --out <path>        Output path without extension. Default: ./asistencia
+  -h, --help              Show this help.
+`;
+
+type OutputFormat = 'csv' | 'json' | 'xlsx';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['csv', 'json', 'xlsx'];
+
+class UsageError extends Error {}
+
+function formatIssues(issues: ConfigIssue[]): string {
+  return issues.map(issue => `  ${issue.path || '(config)'}: ${issue.message}`).join('\n');
+}
+
+async function collectWorkbookPaths(inputs: string[]): Promise<string[]> {
+  const paths: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (!info) throw new UsageError(`"${input}" does not exist.`);
+
+    if (info.isDirectory()) {
+      const entries = (await readdir(input)).sort();
+      // Lock files left by Excel (~$name.xlsx) are not workbooks.
+      paths.push(...entries.filter(name => !name.startsWith('~$') && detectFileFormat({ name, type: '' }) !== null).map(name => path.join(input, name)));
+    } else {
+      paths.push(input);
+    }
+  }
+  return paths;
+}
+
+async function readJsonOption(filePath: string | undefined, description: string): Promise<unknown> {
+  if (!filePath) return undefined;
+  try {
+    return JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new UsageError(`Could not read the ${description} file "${filePath}": ${error.message}`);
+  }
+}
+
+async function readDirectory(directoryPath: string | undefined): Promise<DirectoryEmployee[] | undefined> {
+  if (!directoryPath) return undefined;
+  let text: string;
+  try {
+    text = await readFile(directoryPath, 'utf-8');
+  } catch (error: any) {
+    throw new UsageError(`Could not read the directory file "${directoryPath}": ${error.message}`);
+  }
+
+  const { employees, errors } = parseDirectoryCsv(text);
+  if (errors.length > 0) {
+    throw new UsageError(`Invalid employee directory:\n${errors.map(error => `  ${error}`).join('\n')}`);
+  }
+  return employees;
+}
+
+async function writeOutputs(result: BatchResult, outPath: string, formats: OutputFormat[]): Promise<string[]> {
+  const written: string[] = [];
+  for (const format of formats) {
+    const target = `${outPath}.${format}`;
+    switch (format) {
+      case 'csv':
+        await writeFile(target, `\uFEFF${buildCsv(result.records)}`, 'utf-8');
+        break;
+      case 'json':
+        await writeFile(target, JSON.stringify(result, null, 2), 'utf-8');
+        break;
+      case 'xlsx':
+        await writeFile(target, buildXlsxWorkbook(result.records));
+        break;
+    }
+    written.push(target);
+  }
+  return written;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      sheet: { type: 'string', short: 's', multiple: true },
+      start: { type: 'string' },
+      end: { type: 'string' },
+      policy: { type: 'string', short: 'p' },
+      holidays: { type: 'string' },
+      directory: { type: 'string', short: 'd' },
+      justifications: { type: 'string', short: 'j' },
+      format: { type: 'string', short: 'f', multiple: true },
+      out: { type: 'string', short: 'o', default: 'asistencia' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('Pass at least one directory or workbook.');
+  }
+  if (Boolean(values.start) !== Boolean(values.end)) {
+    throw new UsageError('Pass both --start and --end, or neither to use the period printed in the sheets.');
+  }
+
+  const formats = (values.format ?? ['csv']) as OutputFormat[];
+  const unknownFormat = formats.find(f => !OUTPUT_FORMATS.includes(f));
+  if (unknownFormat) {
+    throw new UsageError(`Unknown format "${unknownFormat}". Use ${OUTPUT_FORMATS.join(', ')}.`);
+  }
+
+  const workbookPaths = await collectWorkbookPaths(positionals);
+  if (workbookPaths.length === 0) {
+    throw new UsageError('No workbooks found.');
+  }
+
+  let failed = false;
+  const sources: WorkbookSource[] = [];
+  // Periods printed in the selected sheets, read along with the sheet names.
+  const detectedPeriods: ReportPeriod[] = [];
+  for (const workbookPath of workbookPaths) {
+    const name = path.basename(workbookPath);
+    const format = detectFileFormat({ name, type: '' });
+    try {
+      const data = await readFile(workbookPath);
+      const fileError = format ? validateFileContent(format, data) : 'Unsupported file format.';
+      if (fileError) throw new Error(fileError);
+
+      const file = { name, data };
+      const info = await inspectWorkbook(file);
+      const sheetNames = values.sheet ?? info.sheetNames.slice(0, 1);
+      sources.push({ file, sheetNames });
+      detectedPeriods.push(...sheetNames.flatMap(sheetName => info.periods[sheetName] ?? []));
+    } catch (error: any) {
+      // A corrupt or unreadable workbook is reported and skipped; the others are still processed.
+      process.stderr.write(`${name}: ${error.message || 'Could not read the workbook.'}\n`);
+      failed = true;
+    }
+  }
+  if (sources.length === 0) {
+    process.stderr.write('None of the workbooks could be read.\n');
+    return 1;
+  }
+
+  const period = values.start && values.end
+    ? { startDate: values.start, endDate: values.end }
+    : coverPeriods(detectedPeriods);
+  if (!period) {
+    throw new UsageError('No period found in the sheet headers; pass --start and --end.');
+  }
+
+  const parsed = extractionConfigSchema.safeParse({
+    ...period,
+    policy: await readJsonOption(values.policy, 'policy'),
+    holidays: await readJsonOption(values.holidays, 'holidays'),
+  });
+  if (!parsed.success) {
+    throw new UsageError(`Invalid settings:\n${formatIssues(toConfigIssues(parsed.error))}`);
+  }
+
+  const justifications = justificationsSchema.safeParse(await readJsonOption(values.justifications, 'justifications') ?? []);
+  if (!justifications.success) {
+    throw new UsageError(`Invalid justifications:\n${formatIssues(toConfigIssues(justifications.error))}`);
+  }
+
+  const directory = await readDirectory(values.directory);
+  const result = await processBatch(sources, parsed.data, { directory, justifications: justifications.data });
+  for (const report of result.sources) {
+    if (report.error) {
+      process.stderr.write(`${formatSource(report)}: ${report.error}\n`);
+      failed = true;
+    } else {
+      process.stdout.write(`${formatSource(report)}: ${report.employeeCount} employee(s)\n`);
+    }
+  }
+
+  const written = await writeOutputs(result, path.resolve(values.out!), formats);
+  process.stdout.write(`${result.records.length} employee(s) from ${period.startDate} to ${period.endDate} written to ${written.join(', ')}\n`);
+
+  return failed ? 1 : 0;
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    const isUsageError = error instanceof UsageError || error?.code?.startsWith?.('ERR_PARSE_ARGS');
+    process.stderr.write(`${error.message}\n${isUsageError ? `\n${USAGE}` : ''}`);
+    process.exitCode = isUsageError ? 2 : 1;
+  });
@@ -0,0 +1,176 @@
+"use client";
+
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { EmployeeAttendance } from '@/lib/attendance';
+import {
+  getAverageHoursByWeekday,
+  getComplianceByDepartment,
+  getDailyAttendance,
+  getGapsByDepartment,
+  getTopNonCompliant,
+} from '@/lib/attendance-analytics';
+import { parseIsoDate } from '@/lib/period';
+
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+
+const TOP_EMPLOYEES = 10;
+
+const complianceConfig = {
+  complianceRate: { label: '% Cumplimiento', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+const weekdayConfig = {
+  averageHours: { label: 'Horas promedio', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+const gapsConfig = {
+  missing: { label: 'No hay registro', color: 'hsl(var(--destructive))' },
+  incomplete: { label: 'Registro incompleto', color: 'hsl(var(--chart-5))' },
+} satisfies ChartConfig;
+
+const trendConfig = {
+  expected: { label: 'Esperados', color: 'hsl(var(--chart-1))' },
+  present: { label: 'Con checadas', color: 'hsl(var(--chart-2))' },
+  missing: { label: 'Sin registro', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+function formatShortDate(isoDate: string): string {
+  const date = parseIsoDate(isoDate);
+  return date ? format(date, 'dd MMM', { locale: es }) : isoDate;
+}
+
+function EmptyChart({ message }: { message: string }) {
+  return <div className="flex h-64 items-center justify-center text-sm text-muted-foreground">{message}</div>;
+}
+
+// Charts over the records shown in the results table, so they follow its filters.
+export default function AttendanceDashboard({ records }: { records: EmployeeAttendance[] }) {
+  const compliance = useMemo(() => getComplianceByDepartment(records), [records]);
+  const weekdays = useMemo(() => getAverageHoursByWeekday(records), [records]);
+  const gaps = useMemo(() => getGapsByDepartment(records), [records]);
+  const daily = useMemo(() => getDailyAttendance(records), [records]);
+  const topEmployees = useMemo(() => getTopNonCompliant(records, TOP_EMPLOYEES), [records]);
+
+  const totalMissing = gaps.reduce((sum, g) => sum + g.missing, 0);
+  const totalIncomplete = gaps.reduce((sum, g) => sum + g.incomplete, 0);
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Cumplimiento por Departamento</CardTitle>
+          <CardDescription>Porcentaje de días evaluados que cumplieron las horas requeridas.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {compliance.length === 0 ? <EmptyChart message="No hay días evaluados." /> : (
+            <ChartContainer config={complianceConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={compliance} layout="vertical" margin={{ left: 8, right: 16 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                <YAxis type="category" dataKey="department" width={120} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="complianceRate" fill="var(--color-complianceRate)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Horas Promedio por Día de la Semana</CardTitle>
+          <CardDescription>Sin contar días festivos, de descanso ni justificados.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {weekdays.every(w => w.days === 0) ? <EmptyChart message="No hay días trabajados." /> : (
+            <ChartContainer config={weekdayConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={weekdays}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="weekday" tickLine={false} axisLine={false} tickFormatter={(value: string) => value.slice(0, 3)} />
+                <YAxis width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="averageHours" fill="var(--color-averageHours)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Días sin Registro e Incompletos</CardTitle>
+          <CardDescription>{totalMissing} sin registro y {totalIncomplete} incompletos, por departamento.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {gaps.length === 0 ? <EmptyChart message="Todos los días laborables tienen registros completos." /> : (
+            <ChartContainer config={gapsConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={gaps}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="department" tickLine={false} axisLine={false} interval={0} tickFormatter={(value: string) => (value.length > 12 ? `${value.slice(0, 11)}…` : value)} />
+                <YAxis width={32} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="missing" stackId="gaps" fill="var(--color-missing)" />
+                <Bar dataKey="incomplete" stackId="gaps" fill="var(--color-incomplete)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Asistencia Diaria</CardTitle>
+          <CardDescription>Empleados esperados, con checadas y sin registro en cada día del periodo.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {daily.length === 0 ? <EmptyChart message="No hay días en el periodo." /> : (
+            <ChartContainer config={trendConfig} className="aspect-auto h-64 w-full">
+              <LineChart data={daily} margin={{ left: 8, right: 16 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={formatShortDate} />
+                <YAxis width={32} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatShortDate(String(value))} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="expected" type="monotone" stroke="var(--color-expected)" strokeDasharray="4 4" dot={false} />
+                <Line dataKey="present" type="monotone" stroke="var(--color-present)" strokeWidth={2} dot={false} />
+                <Line dataKey="missing" type="monotone" stroke="var(--color-missing)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="text-base">Empleados con más Días Incumplidos</CardTitle>
+          <CardDescription>Los {TOP_EMPLOYEES} empleados con más días que no cumplieron las horas requeridas.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {topEmployees.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Ningún empleado tiene días incumplidos.</p>
+          ) : (
+            <ol className="divide-y divide-border">
+              {topEmployees.map((employee, index) => (
+                <li key={`${employee.id}:${employee.name}`} className="flex items-center gap-4 py-2 text-sm">
+                  <span className="w-6 text-right font-semibold text-muted-foreground">{index + 1}</span>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">{employee.name || '—'}</p>
+                    <p className="truncate text-xs text-muted-foreground">ID {employee.id || '—'} · {employee.department}</p>
+                  </div>
+                  <span className="text-xs text-muted-foreground">{employee.compliantDays} cumplidos</span>
+                  <Badge variant="destructive">{employee.nonCompliantDays} incumplidos</Badge>
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { CSSProperties, ReactNode, useCallback, useMemo, useRef } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { ArrowDown, ArrowUp, ArrowUpDown, CheckCircle, Pencil } from 'lucide-react';
+import { EmployeeAttendance } from '@/lib/attendance';
+import { AttendanceColumn, CellTone, CellValue } from '@/lib/attendance-table';
+import { TableSort, nextSort } from '@/lib/attendance-filters';
+import { isDayCorrected } from '@/lib/punch-corrections';
+import { cn } from '@/lib/utils';
+
+// Only the rows and columns in view are rendered, so runs with thousands of employees and a month of day
+// columns scroll smoothly. ID and Nombre stay pinned to the left and the header to the top.
+
+const PINNED_COLUMN_IDS = ['id', 'name'];
+const HEADER_HEIGHT = 56;
+const LINE_HEIGHT = 20;
+const MIN_ROW_HEIGHT = 52;
+
+function getColumnWidth(column: AttendanceColumn): number {
+  switch (column.kind) {
+    case 'employee':
+      if (column.id === 'id') return 96;
+      if (column.id === 'name') return 220;
+      return column.id === 'sources' || column.id === 'reconciliation' ? 240 : 170;
+    case 'punches':
+      return 160;
+    case 'hours':
+      return 190;
+    case 'break':
+      return 150;
+    case 'overtime':
+      return 140;
+    case 'summary':
+      return 150;
+  }
+}
+
+// Rows are as tall as the day with the most punches, one line per punch.
+function getRowHeight(record: EmployeeAttendance): number {
+  const lines = record.days.reduce((max, day) => Math.max(max, day.punches.length), 1);
+  return Math.max(MIN_ROW_HEIGHT, 16 + lines * LINE_HEIGHT);
+}
+
+export default function AttendanceDataTable({ records, columns, getStatusBadge, sort, onSortChange, onEditDay, className }: {
+  records: EmployeeAttendance[],
+  columns: AttendanceColumn[],
+  getStatusBadge: (tone: CellTone | null, value: CellValue) => ReactNode,
+  sort: TableSort | null,
+  onSortChange: (sort: TableSort | null) => void,
+  // Makes the punches cells editable; left out for users who cannot correct punches.
+  onEditDay?: (record: EmployeeAttendance, date: string) => void,
+  // Sizes the scroll container, e.g. "max-h-[60vh]" or "h-full".
+  className?: string,
+}) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const pinnedColumns = useMemo(() => columns.filter(c => PINNED_COLUMN_IDS.includes(c.id)), [columns]);
+  const scrollColumns = useMemo(() => columns.filter(c => !PINNED_COLUMN_IDS.includes(c.id)), [columns]);
+  const pinnedOffsets = useMemo(() => {
+    let left = 0;
+    return pinnedColumns.map(column => {
+      const offset = left;
+      left += getColumnWidth(column);
+      return offset;
+    });
+  }, [pinnedColumns]);
+  const pinnedWidth = pinnedColumns.reduce((sum, c) => sum + getColumnWidth(c), 0);
+
+  const rowVirtualizer = useVirtualizer({
+    count: records.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: useCallback((index: number) => getRowHeight(records[index]), [records]),
+    // A new key function makes the virtualizer recompute row sizes after filtering or sorting.
+    getItemKey: useCallback((index: number) => `${records[index].employee.id}:${records[index].employee.name}:${index}`, [records]),
+    paddingStart: HEADER_HEIGHT,
+    overscan: 8,
+  });
+
+  const columnVirtualizer = useVirtualizer({
+    horizontal: true,
+    count: scrollColumns.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: useCallback((index: number) => getColumnWidth(scrollColumns[index]), [scrollColumns]),
+    getItemKey: useCallback((index: number) => scrollColumns[index].id, [scrollColumns]),
+    paddingStart: pinnedWidth,
+    overscan: 4,
+  });
+
+  const virtualColumns = columnVirtualizer.getVirtualItems();
+  // Stands in for the scrolled-out columns between the pinned ones and the first rendered one.
+  const leadingWidth = virtualColumns.length > 0 ? virtualColumns[0].start - pinnedWidth : 0;
+  const totalWidth = columnVirtualizer.getTotalSize();
+
+  const renderHeaderCell = (column: AttendanceColumn, style: CSSProperties, pinned: boolean) => {
+    const direction = sort?.columnId === column.id ? sort.direction : null;
+    const SortIcon = direction === 'asc' ? ArrowUp : direction === 'desc' ? ArrowDown : ArrowUpDown;
+    return (
+      <div
+        key={column.id}
+        role="columnheader"
+        aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none'}
+        className={cn('flex shrink-0 items-center border-b border-border bg-muted px-4 text-sm font-semibold text-foreground', pinned && 'sticky z-30')}
+        style={style}
+      >
+        <button type="button" className="flex items-center gap-1.5 text-left hover:text-primary" onClick={() => onSortChange(nextSort(sort, column.id))}>
+          <span className="line-clamp-2 whitespace-normal">{column.header}</span>
+          <SortIcon className={cn('h-3 w-3 shrink-0', direction ? 'text-primary' : 'text-muted-foreground/60')} />
+        </button>
+      </div>
+    );
+  };
+
+  const renderCell = (record: EmployeeAttendance, column: AttendanceColumn, style: CSSProperties, pinned: boolean) => {
+    const cellValue = column.getValue(record);
+    const tone = column.getTone(record);
+    const badge = getStatusBadge(tone, cellValue);
+    const text = cellValue?.toString() ?? '';
+    const multiline = text.includes('\n');
+    const date = column.kind === 'punches' ? column.date : undefined;
+    const corrected = date !== undefined && isDayCorrected(record, date);
+
+    return (
+      <div
+        key={column.id}
+        role="cell"
+        title={multiline ? undefined : text}
+        className={cn('group flex shrink-0 items-center overflow-hidden border-b border-border px-4 text-sm text-foreground', {
+          'sticky z-10 bg-card': pinned,
+          'relative': !pinned && date !== undefined,
+          'font-semibold text-orange-400': tone === 'horas-insuficientes',
+          'text-green-400': tone === 'horas-normales',
+          'text-amber-400': tone === 'retardo',
+          'font-semibold text-amber-400': tone === 'retardos',
+        })}
+        style={style}
+      >
+        {badge ?? (
+          <div className="min-w-0">
+            {text.split('\n').map((line, i) => (
+              <div key={i} className={cn('truncate', { 'flex items-center gap-1.5': multiline })}>
+                {multiline && <CheckCircle className={cn('h-3 w-3 shrink-0', i % 2 === 0 ? 'text-green-500' : 'text-red-500')} />}
+                {line}
+              </div>
+            ))}
+          </div>
+        )}
+        {corrected && <span className="absolute right-1.5 top-1.5 h-1.5 w-1.5 rounded-full bg-sky-400" title="Checadas corregidas manualmente" />}
+        {onEditDay && date !== undefined && (
+          <button
+            type="button"
+            aria-label={`Corregir checadas del ${date}`}
+            className="absolute bottom-1 right-1 rounded p-1 text-muted-foreground opacity-0 hover:text-primary focus:opacity-100 group-hover:opacity-100"
+            onClick={() => onEditDay(record, date)}
+          >
+            <Pencil className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div ref={scrollRef} className={cn('relative w-full overflow-auto rounded-md border', className)}>
+      <div
+        role="table"
+        aria-rowcount={records.length + 1}
+        aria-colcount={columns.length}
+        className="relative"
+        style={{ width: totalWidth, height: rowVirtualizer.getTotalSize() }}
+      >
+        <div role="row" className="sticky top-0 z-20 flex bg-muted" style={{ height: HEADER_HEIGHT, width: totalWidth }}>
+          {pinnedColumns.map((column, i) => renderHeaderCell(column, { width: getColumnWidth(column), left: pinnedOffsets[i] }, true))}
+          <div className="shrink-0" style={{ width: leadingWidth }} />
+          {virtualColumns.map(virtualColumn => renderHeaderCell(scrollColumns[virtualColumn.index], { width: virtualColumn.size }, false))}
+        </div>
+        {rowVirtualizer.getVirtualItems().map(virtualRow => {
+          const record = records[virtualRow.index];
+          return (
+            <div
+              key={virtualRow.key}
+              role="row"
+              aria-rowindex={virtualRow.index + 2}
+              className="absolute left-0 top-0 flex hover:bg-muted/50"
+              style={{ height: virtualRow.size, width: totalWidth, transform: `translateY(${virtualRow.start}px)` }}
+            >
+              {pinnedColumns.map((column, i) => renderCell(record, column, { width: getColumnWidth(column), left: pinnedOffsets[i] }, true))}
+              <div className="shrink-0" style={{ width: leadingWidth }} />
+              {virtualColumns.map(virtualColumn => renderCell(record, scrollColumns[virtualColumn.index], { width: virtualColumn.size }, false))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useMemo } from 'react';
+import { Filter, Search, X } from 'lucide-react';
+import { EmployeeAttendance, getRecordDepartment } from '@/lib/attendance';
+import { AttendanceColumn } from '@/lib/attendance-table';
+import {
+  COMPARISON_OPERATORS,
+  ComparisonOperator,
+  EMPTY_TABLE_FILTERS,
+  STATUS_FILTERS,
+  STATUS_FILTER_LABELS,
+  StatusFilter,
+  TableFilters,
+  hasActiveFilters,
+} from '@/lib/attendance-filters';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const NO_CONDITION = 'none';
+
+export default function AttendanceTableToolbar({ records, columns, filters, onChange }: {
+  records: EmployeeAttendance[],
+  columns: AttendanceColumn[],
+  filters: TableFilters,
+  onChange: (filters: TableFilters) => void,
+}) {
+  const departments = useMemo(() => Array.from(new Set(records.map(getRecordDepartment))).sort((a, b) => a.localeCompare(b)), [records]);
+  // Conditions compare numbers, so they are offered on the summary columns (Días Incumplidos, Retardos...).
+  const conditionColumns = useMemo(() => columns.filter(c => c.kind === 'summary'), [columns]);
+
+  const toggleDepartment = (department: string, checked: boolean) => {
+    onChange({
+      ...filters,
+      departments: checked ? [...filters.departments, department] : filters.departments.filter(d => d !== department),
+    });
+  };
+
+  const setConditionColumn = (columnId: string) => {
+    onChange({
+      ...filters,
+      condition: columnId === NO_CONDITION ? null : { operator: '>', value: 0, ...filters.condition, columnId },
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative w-full sm:w-64">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          className="pl-8"
+          placeholder="Buscar por ID o nombre"
+          aria-label="Buscar por ID o nombre"
+          value={filters.search}
+          onChange={(e) => onChange({ ...filters, search: e.target.value })}
+        />
+      </div>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Filter className="mr-2 h-4 w-4" />
+            {filters.departments.length > 0 ? `Departamentos (${filters.departments.length})` : 'Departamentos'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-3" align="start">
+          <div className="max-h-64 space-y-2 overflow-y-auto">
+            {departments.map(department => (
+              <div key={department} className="flex items-center gap-2">
+                <Checkbox
+                  id={`filter-department-${department}`}
+                  checked={filters.departments.includes(department)}
+                  onCheckedChange={(checked) => toggleDepartment(department, checked === true)}
+                />
+                <Label htmlFor={`filter-department-${department}`} className="font-normal">{department}</Label>
+              </div>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Select value={filters.status} onValueChange={(value) => onChange({ ...filters, status: value as StatusFilter })}>
+        <SelectTrigger className="h-9 w-56" aria-label="Filtrar por estado"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {STATUS_FILTERS.map(status => <SelectItem key={status} value={status}>{STATUS_FILTER_LABELS[status]}</SelectItem>)}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-1">
+        <Select value={filters.condition?.columnId ?? NO_CONDITION} onValueChange={setConditionColumn}>
+          <SelectTrigger className="h-9 w-48" aria-label="Columna de la condición"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CONDITION}>Sin condición</SelectItem>
+            {conditionColumns.map(column => <SelectItem key={column.id} value={column.id}>{column.header}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {filters.condition && (
+          <>
+            <Select
+              value={filters.condition.operator}
+              onValueChange={(value) => onChange({ ...filters, condition: { ...filters.condition!, operator: value as ComparisonOperator } })}
+            >
+              <SelectTrigger className="h-9 w-16" aria-label="Operador"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {COMPARISON_OPERATORS.map(operator => <SelectItem key={operator} value={operator}>{operator}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="any"
+              className="h-9 w-20"
+              aria-label="Valor de la condición"
+              value={filters.condition.value}
+              onChange={(e) => onChange({ ...filters, condition: { ...filters.condition!, value: parseFloat(e.target.value) || 0 } })}
+            />
+          </>
+        )}
+      </div>
+
+      {hasActiveFilters(filters) && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_TABLE_FILTERS)}>
+          <X className="mr-2 h-4 w-4" />
+          Limpiar filtros
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import Link from 'next/link';
+import { Loader2, LogOut, RefreshCw, Users } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { isFirebaseConfigured } from '@/lib/firebase';
+import { ROLE_LABELS, canManageUsers, hasRole } from '@/lib/roles';
+import SignInForm from '@/components/sign-in-form';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+// Renders the app only for signed-in users with a role; everyone else gets the sign-in form or a notice.
+export default function AuthGate({ children }: { children: React.ReactNode }) {
+  const { user, profile, loading, signOut, refreshProfile } = useAuth();
+
+  let content: React.ReactNode;
+  if (!isFirebaseConfigured()) {
+    content = (
+      <Card className="max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle>Inicio de Sesión no Disponible</CardTitle>
+          <CardDescription>Configura Firebase (NEXT_PUBLIC_FIREBASE_PROJECT_ID) o usa los emuladores; consulta docs/auth.md.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  } else if (loading) {
+    content = (
+      <div className="flex items-center justify-center h-64 text-muted-foreground"><Loader2 className="h-6 w-6 animate-spin mr-2" />Cargando sesión...</div>
+    );
+  } else if (!user) {
+    content = <SignInForm />;
+  } else if (!hasRole(profile)) {
+    content = (
+      <Card className="max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle>Cuenta Pendiente de Autorización</CardTitle>
+          <CardDescription>Tu cuenta ({user.email}) aún no tiene un rol asignado. Pide a un administrador que te dé acceso.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          <Button variant="outline" onClick={() => refreshProfile()}><RefreshCw className="mr-2 h-4 w-4" />Volver a comprobar</Button>
+          <Button variant="ghost" onClick={() => signOut()}><LogOut className="mr-2 h-4 w-4" />Cerrar sesión</Button>
+        </CardContent>
+      </Card>
+    );
+  } else {
+    return (
+      <>
+        <div className="border-b border-border bg-card/50">
+          <div className="max-w-7xl mx-auto flex flex-wrap items-center justify-end gap-3 px-4 py-2 text-sm">
+            <span className="text-muted-foreground">{user.email}</span>
+            <Badge variant="secondary">{ROLE_LABELS[profile.role]}</Badge>
+            {profile.role === 'department_head' && (
+              <span className="text-muted-foreground">{profile.departments.join(', ') || 'Sin departamentos asignados'}</span>
+            )}
+            {canManageUsers(profile) && (
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/users"><Users className="mr-2 h-4 w-4" />Usuarios</Link>
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => signOut()}><LogOut className="mr-2 h-4 w-4" />Cerrar sesión</Button>
+          </div>
+        </div>
+        {children}
+      </>
+    );
+  }
+
+  return <main className="min-h-screen bg-background text-foreground p-4 sm:p-6 md:p-8 pt-24">{content}</main>;
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Upload } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { DirectoryEmployee, parseDirectoryCsv } from '@/lib/employee-directory';
+import { listDirectory, replaceDirectory } from '@/lib/directory-store';
+import { canManageDirectory } from '@/lib/roles';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// Import problems listed under the upload field before they are cut off.
+const MAX_SHOWN_ERRORS = 10;
+
+export default function EmployeeDirectoryTable() {
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const [employees, setEmployees] = useState<DirectoryEmployee[] | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEmployees(await listDirectory());
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'No se pudo Cargar el Directorio', description: error.message || 'Ocurrió un error desconocido.' });
+      setEmployees([]);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (profile) refresh();
+  }, [profile, refresh]);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const { employees: imported, errors } = parseDirectoryCsv(await file.text());
+      setImportErrors(errors);
+      if (imported.length === 0) {
+        toast({ variant: 'destructive', title: 'Directorio sin Empleados', description: 'El archivo no tiene ningún empleado válido; el directorio no se modificó.' });
+        return;
+      }
+
+      await replaceDirectory(imported);
+      toast({
+        title: 'Directorio Importado',
+        description: `Se importaron ${imported.length} empleados${errors.length > 0 ? ` y se omitieron ${errors.length} filas` : ''}.`,
+      });
+      await refresh();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'No se pudo Importar', description: error.message || 'Ocurrió un error desconocido.' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {canManageDirectory(profile) && (
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle>Importar Directorio</CardTitle>
+            <CardDescription>
+              Sube un CSV con las columnas ID y Nombre, y opcionalmente Departamento, Puesto y Horario. La importación reemplaza el directorio completo.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="directory-upload">Archivo CSV</Label>
+              <div className="flex items-center gap-2">
+                <Input id="directory-upload" type="file" accept=".csv,text/csv" disabled={importing} onChange={handleImport} />
+                {importing ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" /> : <Upload className="h-4 w-4 text-muted-foreground" />}
+              </div>
+            </div>
+            {importErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTitle>Filas omitidas</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4">
+                    {importErrors.slice(0, MAX_SHOWN_ERRORS).map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                  {importErrors.length > MAX_SHOWN_ERRORS && <p className="mt-2">Y {importErrors.length - MAX_SHOWN_ERRORS} más.</p>}
+                </AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Empleados</CardTitle>
+          <CardDescription>Al procesar, los nombres y departamentos de la hoja se corrigen con los de este directorio según el ID del reloj.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {employees === null ? (
+            <div className="flex items-center justify-center h-48 text-muted-foreground"><Loader2 className="h-6 w-6 animate-spin mr-2" />Cargando directorio...</div>
+          ) : employees.length === 0 ? (
+            <div className="flex items-center justify-center h-48 text-muted-foreground">El directorio está vacío.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ID</TableHead>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>Departamento</TableHead>
+                  <TableHead>Puesto</TableHead>
+                  <TableHead>Horario</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {employees.map(employee => (
+                  <TableRow key={employee.id}>
+                    <TableCell className="font-mono">{employee.id}</TableCell>
+                    <TableCell>{employee.name}</TableCell>
+                    <TableCell>{employee.department}</TableCell>
+                    <TableCell>{employee.position}</TableCell>
+                    <TableCell>{employee.schedule}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
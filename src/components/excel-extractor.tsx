@@ -1,155 +1,270 @@
 "use client";
 
-import { useState, useTransition } from 'react';
+import { useEffect, useMemo, useRef, useState, useTransition } from 'react';
+import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { UploadCloud, File as FileIcon, Loader2, Download, VenetianMask, AlertCircle, CheckCircle, Clock, Expand, FileCode } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { UploadCloud, Loader2, Download, VenetianMask, AlertCircle, Clock, Expand, FileCode, FileSpreadsheet, FileText, CalendarIcon, History, CheckCircle2, UserX, Users, CalendarOff, FileCheck } from 'lucide-react';
 import { suggestMetadata, SuggestMetadataOutput } from '@/ai/flows/suggest-metadata';
-import { processExcel, ProcessConfig } from '@/lib/excel-processor';
+import { BatchProgress, ExtractionConfig, SourceReport } from '@/lib/excel-processor';
+import { BatchCancelledError, BatchJob, getBatchProgressPercent, inspectWorkbookInWorker, startBatchJob } from '@/lib/attendance-worker';
+import { EmployeeAttendance } from '@/lib/attendance';
+import { ACCEPTED_FILE_TYPES, validateAttendanceFile } from '@/lib/file-formats';
+import { CellTone, CellValue, buildAttendanceColumns, formatSource } from '@/lib/attendance-table';
+import { EMPTY_TABLE_FILTERS, TableFilters, TableSort, filterRecords, hasActiveFilters, sortRecords } from '@/lib/attendance-filters';
+import { MAX_PERIOD_DAYS, ReportPeriod, coverPeriods, parseIsoDate, toIsoDate, validatePeriod } from '@/lib/period';
 import { exportToCsv } from '@/lib/csv-utils';
 import { exportToHtml } from '@/lib/html-utils';
+import { exportToXlsx } from '@/lib/xlsx-utils';
+import { exportToPdf } from '@/lib/pdf-utils';
+import { DEFAULT_SCHEDULE_POLICY, SchedulePolicy } from '@/lib/schedule-policy';
 import { cn } from '@/lib/utils';
+import { isFirebaseConfigured } from '@/lib/firebase';
+import { getRun, loadRunRecords, saveRun, updateRunRecord } from '@/lib/run-history';
+import { DirectoryEmployee } from '@/lib/employee-directory';
+import { listDirectory } from '@/lib/directory-store';
+import { EMPTY_HOLIDAY_CALENDAR, HolidayCalendar } from '@/lib/holidays';
+import { loadHolidayCalendar, saveHolidayCalendar } from '@/lib/holiday-store';
+import { listJustifications } from '@/lib/justification-store';
+import { canCorrectPunches, canManageSettings, filterRecordsForUser } from '@/lib/roles';
+import { CorrectedPunch, applyPunchCorrection } from '@/lib/punch-corrections';
+import { useAuth } from '@/hooks/use-auth';
+import SchedulePolicyEditor from '@/components/schedule-policy-editor';
+import HolidayCalendarEditor from '@/components/holiday-calendar-editor';
+import WorkbookSourceList, { SelectedWorkbook, getWorkbookKey } from '@/components/workbook-source-list';
+import AttendanceTableToolbar from '@/components/attendance-table-toolbar';
+import AttendanceDataTable from '@/components/attendance-data-table';
+import PunchCorrectionDialog, { CorrectionTarget } from '@/components/punch-correction-dialog';
+import AttendanceDashboard from '@/components/attendance-dashboard';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 
 
 const formSchema = z.object({
-  sheetName: z.string().min(1, 'El nombre de la hoja es obligatorio.'),
-  days: z.string().min(1, 'Los días son obligatorios (ej. 22, 23, 24).').regex(/^(\d+,\s*)*\d+$/, 'Debe ser una lista de números separados por comas.'),
-  year: z.coerce.number().min(1900, "El año debe ser posterior a 1900.").max(new Date().getFullYear() + 1, "El año no puede ser en el futuro."),
-  month: z.string().min(3, 'La abreviatura del mes es obligatoria (ej. Jul).').max(4, "El mes debe ser una abreviatura de 3 o 4 letras."),
+  period: z.object({
+    from: z.date().optional(),
+    to: z.date().optional(),
+  })
+    .refine(p => p.from && p.to, 'Selecciona la fecha de inicio y la de fin del periodo.')
+    .refine(p => !p.from || !p.to || validatePeriod({ startDate: toIsoDate(p.from), endDate: toIsoDate(p.to) }) === null, `El periodo no puede abarcar más de ${MAX_PERIOD_DAYS} días.`),
 });
 
-type ExtractedData = Record<string, any>[];
-
-const DataTableView = ({ extractedData, tableHeaders, getStatusBadge }: { extractedData: ExtractedData, tableHeaders: string[], getStatusBadge: (value: any) => React.ReactNode }) => {
-  return (
-    <Table>
-      <TableHeader className="sticky top-0 bg-muted z-10">
-        <TableRow>
-          {tableHeaders.map(header => <TableHead key={header} className="font-semibold text-foreground">{header}</TableHead>)}
-        </TableRow>
-      </TableHeader>
-      <TableBody>
-        {extractedData.map((row, rowIndex) => (
-          <TableRow key={rowIndex}>
-            {tableHeaders.map((header) => {
-              const cellValue = row[header];
-              const badge = getStatusBadge(cellValue);
-
-              if (badge) {
-                return (
-                  <TableCell key={`${rowIndex}-${header}`}>
-                    {badge}
-                  </TableCell>
-                )
-              }
-
-              const isHorasInsuficientes = typeof cellValue === 'number' && cellValue < 7.75;
-              const isHorasNormales = typeof cellValue === 'number' && cellValue >= 7.75;
-
-              return (
-                <TableCell
-                  key={`${rowIndex}-${header}`}
-                  className={cn('text-foreground', {
-                    'font-semibold text-orange-400': isHorasInsuficientes,
-                    'text-green-400': isHorasNormales,
-                  })}
-                >
-                  {cellValue?.toString().split('\n').map((line: string, i: number) => (
-                    <div key={i} className={cn({'flex items-center gap-1.5': cellValue?.toString().includes('\n')})}>
-                      {cellValue?.toString().includes('\n') && <CheckCircle className={cn('h-3 w-3', i === 0 ? 'text-green-500': 'text-red-500')} />}
-                      {line}
-                    </div>
-                  ))}
-                </TableCell>
-              );
-            })}
-          </TableRow>
-        ))}
-      </TableBody>
-    </Table>
-  );
+const emptyFormValues = {
+  period: { from: undefined, to: undefined },
 };
 
+type ExtractedData = EmployeeAttendance[];
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
 
-export default function ExcelExtractor() {
+export default function ExcelExtractor({ runId }: { runId?: string }) {
   const { toast } = useToast();
-  const [file, setFile] = useState<File | null>(null);
+  const { profile } = useAuth();
+  const [workbooks, setWorkbooks] = useState<SelectedWorkbook[]>([]);
   const [extractedData, setExtractedData] = useState<ExtractedData | null>(null);
+  const [sourceReports, setSourceReports] = useState<SourceReport[]>([]);
+  const [schedulePolicy, setSchedulePolicy] = useState<SchedulePolicy>(DEFAULT_SCHEDULE_POLICY);
   const [isProcessing, startProcessing] = useTransition();
   const [isSuggesting, startSuggesting] = useTransition();
   const [aiSuggestions, setAiSuggestions] = useState<SuggestMetadataOutput | null>(null);
+  const [savedRunId, setSavedRunId] = useState<string | null>(null);
+  const [isSavingRun, setIsSavingRun] = useState(false);
+  const [directory, setDirectory] = useState<DirectoryEmployee[]>([]);
+  const [reconcileWithDirectory, setReconcileWithDirectory] = useState(true);
+  const [holidayCalendar, setHolidayCalendar] = useState<HolidayCalendar>(EMPTY_HOLIDAY_CALENDAR);
+  const [isSavingHolidays, setIsSavingHolidays] = useState(false);
+  const [tableFilters, setTableFilters] = useState<TableFilters>(EMPTY_TABLE_FILTERS);
+  const [tableSort, setTableSort] = useState<TableSort | null>(null);
+  const [exportFiltered, setExportFiltered] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const batchJobRef = useRef<BatchJob | null>(null);
+  // Settings the records on screen were processed with; corrections are evaluated under them.
+  const [runConfig, setRunConfig] = useState<ExtractionConfig | null>(null);
+  const [correctionTarget, setCorrectionTarget] = useState<CorrectionTarget | null>(null);
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      sheetName: '',
-      days: '',
-      year: new Date().getFullYear(),
-      month: new Date().toLocaleString('es-ES', { month: 'short' }),
-    },
+    defaultValues: emptyFormValues,
   });
 
+  const selectedSources = useMemo(
+    () => workbooks.flatMap(w => w.selectedSheets.map(sheetName => ({ file: w.file, sheetName }))),
+    [workbooks],
+  );
+
+  // Pre-fill the period from the ranges printed in the sheet headers; the user only has to confirm it.
+  // The ranges were read with the sheet names when each file was added, so this does not read the files again.
+  const detectedPeriod = useMemo(
+    () => coverPeriods(workbooks.flatMap(w => w.selectedSheets.map(sheetName => w.periods[sheetName])).filter((p): p is ReportPeriod => p != null)),
+    [workbooks],
+  );
+  // Keyed on the dates, so a period the user adjusted is kept until the selection brings a different range.
+  const detectedStart = detectedPeriod?.startDate;
+  const detectedEnd = detectedPeriod?.endDate;
+  useEffect(() => {
+    if (!detectedStart || !detectedEnd) return;
+    form.setValue('period', { from: parseIsoDate(detectedStart)!, to: parseIsoDate(detectedEnd)! }, { shouldValidate: true });
+  }, [detectedStart, detectedEnd, form]);
+
+  useEffect(() => {
+    if (!profile || !isFirebaseConfigured()) return;
+
+    let cancelled = false;
+    listDirectory()
+      .then((employees) => {
+        if (!cancelled) setDirectory(employees);
+      })
+      .catch((error) => console.error('No se pudo cargar el directorio de empleados:', error));
+    // A run reopened from the history keeps the calendar it was processed with.
+    if (!runId) {
+      loadHolidayCalendar()
+        .then((calendar) => {
+          if (!cancelled) setHolidayCalendar(calendar);
+        })
+        .catch((error) => console.error('No se pudo cargar el calendario de días festivos:', error));
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile, runId]);
+
+  // Reopen a run from the history (/?run=<id>) with the settings it was processed with.
+  useEffect(() => {
+    if (!runId || !profile || !isFirebaseConfigured()) return;
+
+    let cancelled = false;
+    startProcessing(async () => {
+      try {
+        const [run, records] = await Promise.all([getRun(runId), loadRunRecords(runId, profile)]);
+        if (cancelled) return;
+        if (!run) {
+          toast({ variant: 'destructive', title: 'Ejecución no Encontrada', description: 'La ejecución fue eliminada del historial.' });
+          return;
+        }
+        setExtractedData(records);
+        setSourceReports(run.sources);
+        // Policies saved before shift times, overtime and rounding rules existed lack those fields.
+        const policy = { ...DEFAULT_SCHEDULE_POLICY, ...run.config.policy };
+        setSchedulePolicy(policy);
+        setRunConfig({ ...run.config, policy });
+        setHolidayCalendar(run.config.holidays ?? EMPTY_HOLIDAY_CALENDAR);
+        setSavedRunId(run.id);
+        form.setValue('period', { from: parseIsoDate(run.config.startDate)!, to: parseIsoDate(run.config.endDate)! });
+      } catch (error: any) {
+        console.error('No se pudo abrir la ejecución:', error);
+        toast({ variant: 'destructive', title: 'No se pudo Abrir la Ejecución', description: error.message || 'Ocurrió un error desconocido.' });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, profile, form, toast]);
+
+  const handleSaveHolidays = async () => {
+    setIsSavingHolidays(true);
+    try {
+      await saveHolidayCalendar(holidayCalendar);
+      toast({ title: 'Calendario Guardado', description: 'Los días festivos se usarán por defecto en las próximas extracciones.' });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'No se pudo Guardar el Calendario', description: error.message || 'Ocurrió un error desconocido.' });
+    } finally {
+      setIsSavingHolidays(false);
+    }
+  };
+
+  const suggestSheet = async (file: File) => {
+    const key = getWorkbookKey(file);
+    let suggestedSheet: string | undefined;
+    try {
+      const suggestions = await suggestMetadata({ excelDataUri: await readAsDataUrl(file) });
+      setAiSuggestions(suggestions);
+      suggestedSheet = suggestions.suggestedSheetNames?.[0];
+    } catch (error) {
+      console.error('La sugerencia de la IA falló:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Fallo en la Sugerencia de la IA',
+        description: `No se pudieron obtener sugerencias para ${file.name}.`,
+      });
+    }
+
+    setWorkbooks(current => current.map(w => {
+      if (getWorkbookKey(w.file) !== key) return w;
+      const fallback = suggestedSheet && w.sheetNames.includes(suggestedSheet) ? suggestedSheet : w.sheetNames[0];
+      return { ...w, isSuggesting: false, selectedSheets: w.selectedSheets.length > 0 ? w.selectedSheets : [fallback] };
+    }));
+  };
+
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = event.target.files?.[0];
-    if (selectedFile) {
-      if (selectedFile.type !== 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' && !selectedFile.name.endsWith('.xlsx')) {
+    const selectedFiles = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (selectedFiles.length === 0) return;
+
+    const knownKeys = new Set(workbooks.map(w => getWorkbookKey(w.file)));
+    const added: SelectedWorkbook[] = [];
+    for (const file of selectedFiles.filter(f => !knownKeys.has(getWorkbookKey(f)))) {
+      const validationError = await validateAttendanceFile(file);
+      if (validationError) {
         toast({
           variant: 'destructive',
           title: 'Tipo de Archivo No Válido',
-          description: 'Por favor, sube un archivo Excel .xlsx válido.',
+          description: `${file.name}: ${validationError}`,
         });
-        return;
+        continue;
       }
 
-      setFile(selectedFile);
-      setExtractedData(null);
-      setAiSuggestions(null);
-      form.reset({
-        sheetName: '',
-        days: '',
-        year: new Date().getFullYear(),
-        month: new Date().toLocaleString('es-ES', { month: 'short' }),
-      });
-
-      startSuggesting(async () => {
-        try {
-          const reader = new FileReader();
-          reader.onload = async (e) => {
-            const dataUri = e.target?.result as string;
-            const suggestions = await suggestMetadata({ excelDataUri: dataUri });
-            setAiSuggestions(suggestions);
-            if (suggestions.suggestedSheetNames?.length > 0) {
-              form.setValue('sheetName', suggestions.suggestedSheetNames[0]);
-            }
-          };
-          reader.readAsDataURL(selectedFile);
-        } catch (error) {
-          console.error('La sugerencia de la IA falló:', error);
-          toast({
-            variant: 'destructive',
-            title: 'Fallo en la Sugerencia de la IA',
-            description: 'No se pudieron obtener sugerencias para este archivo.',
-          });
-        }
-      });
+      try {
+        const { sheetNames, periods } = await inspectWorkbookInWorker(file);
+        added.push({ file, sheetNames, periods, selectedSheets: [], isSuggesting: true });
+      } catch (error) {
+        console.error('No se pudo leer el archivo:', error);
+        toast({
+          variant: 'destructive',
+          title: 'Archivo Ilegible',
+          description: `No se pudieron leer las hojas de ${file.name}.`,
+        });
+      }
     }
+    if (added.length === 0) return;
+
+    setWorkbooks(current => [...current, ...added]);
+    setExtractedData(null);
+    setSourceReports([]);
+    setSavedRunId(null);
+
+    startSuggesting(async () => {
+      await Promise.all(added.map(w => suggestSheet(w.file)));
+    });
   };
 
   const onSubmit = (values: z.infer<typeof formSchema>) => {
-    if (!file) {
+    if (workbooks.length === 0) {
       toast({
         variant: 'destructive',
         title: 'No hay Archivo',
@@ -158,24 +273,91 @@ export default function ExcelExtractor() {
       return;
     }
 
+    if (selectedSources.length === 0) {
+      toast({
+        variant: 'destructive',
+        title: 'No hay Hojas Seleccionadas',
+        description: 'Selecciona al menos una hoja para procesar.',
+      });
+      return;
+    }
+
+    const config: ExtractionConfig = {
+      startDate: toIsoDate(values.period.from!),
+      endDate: toIsoDate(values.period.to!),
+      policy: schedulePolicy,
+      holidays: holidayCalendar,
+    };
+
+    const selectedWorkbooks = workbooks.filter(w => w.selectedSheets.length > 0);
+
     startProcessing(async () => {
+      setBatchProgress(null);
       try {
-        const data = await processExcel(file, values as ProcessConfig);
+        const justifications = isFirebaseConfigured() ? await listJustifications(config) : [];
+        const job = startBatchJob(
+          selectedWorkbooks.map(w => ({ file: w.file, sheetNames: w.selectedSheets })),
+          config,
+          { directory: reconcileWithDirectory && directory.length > 0 ? directory : undefined, justifications },
+          setBatchProgress,
+        );
+        batchJobRef.current = job;
+        const { records, sources } = await job.promise;
+        setSavedRunId(null);
+        // Department heads only get their own departments, in the table and in everything exported from it.
+        const data = filterRecordsForUser(records, profile);
+        setSourceReports(sources);
+        const failed = sources.filter(source => source.error);
+        if (failed.length > 0) {
+          toast({
+            variant: 'destructive',
+            title: 'Algunas Hojas no se Procesaron',
+            description: failed.map(source => `${formatSource(source)}: ${source.error}`).join('\n'),
+          });
+        }
         if (data.length === 0) {
           toast({
             variant: 'destructive',
             title: 'No se Extrajeron Datos',
-            description: 'No se encontraron registros coincidentes. Revisa tu configuración.',
+            description: records.length > 0
+              ? 'Ninguno de los empleados encontrados pertenece a tus departamentos.'
+              : 'No se encontraron registros coincidentes. Revisa tu configuración.',
           });
           setExtractedData(null);
         } else {
           setExtractedData(data);
+          setRunConfig(config);
           toast({
             title: 'Extracción Exitosa',
-            description: `Se extrajeron ${data.length} registros.`,
+            description: `Se extrajeron ${data.length} registros de ${sources.length - failed.length} hoja(s).`,
           });
+          if (isFirebaseConfigured()) {
+            setIsSavingRun(true);
+            saveRun({
+              files: selectedWorkbooks.map(({ file }) => ({ name: file.name, size: file.size, lastModified: file.lastModified })),
+              sources,
+              config,
+              records: data,
+              createdBy: profile ? { uid: profile.uid, email: profile.email } : null,
+            })
+              .then(setSavedRunId)
+              .catch((error) => {
+                console.error('No se pudo guardar la ejecución:', error);
+                toast({
+                  variant: 'destructive',
+                  title: 'No se Guardó en el Historial',
+                  description: error.message || 'Ocurrió un error desconocido.',
+                });
+              })
+              .finally(() => setIsSavingRun(false));
+          }
         }
       } catch (error: any) {
+        // A cancelled run keeps the results already on screen.
+        if (error instanceof BatchCancelledError) {
+          toast({ title: 'Extracción Cancelada', description: 'Se detuvo el procesamiento de los archivos.' });
+          return;
+        }
         console.error('El procesamiento falló:', error);
         toast({
           variant: 'destructive',
@@ -183,32 +365,110 @@ export default function ExcelExtractor() {
           description: error.message || 'Ocurrió un error desconocido.',
         });
         setExtractedData(null);
+      } finally {
+        batchJobRef.current = null;
+        setBatchProgress(null);
       }
     });
   };
+
+  const handleCancelProcessing = () => {
+    batchJobRef.current?.cancel();
+  };
+
+  const handleSaveCorrection = async (punches: CorrectedPunch[], reason: string) => {
+    if (!correctionTarget) return;
+    const { record, date } = correctionTarget;
+    try {
+      const corrected = applyPunchCorrection(
+        record,
+        date,
+        { punches, reason, correctedBy: profile ? { uid: profile.uid, email: profile.email } : null },
+        runConfig?.policy ?? schedulePolicy,
+      );
+      // A saved run keeps the correction too, so reopening it from the history shows the corrected day.
+      if (savedRunId) {
+        await updateRunRecord(savedRunId, corrected);
+      }
+      setExtractedData(current => current?.map(r => (r === record ? corrected : r)) ?? null);
+      setCorrectionTarget(null);
+      const description = `Se recalcularon las horas de ${record.employee.name || record.employee.id} del ${date}.`;
+      if (isFirebaseConfigured() && !savedRunId) {
+        // The run never reached the history, so the correction only lives in this session.
+        toast({
+          variant: 'destructive',
+          title: 'Corrección no Guardada en el Historial',
+          description: `${description} La ejecución no se guardó en el historial, así que la corrección solo se conserva en esta sesión. Exporta los resultados para no perderla.`,
+        });
+      } else {
+        toast({ title: 'Corrección Guardada', description });
+      }
+    } catch (error: any) {
+      console.error('No se pudo guardar la corrección:', error);
+      toast({ variant: 'destructive', title: 'No se pudo Guardar la Corrección', description: error.message || 'Ocurrió un error desconocido.' });
+      throw error;
+    }
+  };
+
+  // Corrections wait for the run to reach the history, or they would be lost when it is reopened.
+  const handleEditDay = canCorrectPunches(profile) && !isSavingRun
+    ? (record: EmployeeAttendance, date: string) => setCorrectionTarget({ record, date })
+    : undefined;
   
+  const columns = useMemo(() => (extractedData ? buildAttendanceColumns(extractedData) : []), [extractedData]);
+  const visibleData = useMemo(
+    () => (extractedData ? sortRecords(filterRecords(extractedData, columns, tableFilters), columns, tableSort) : []),
+    [extractedData, columns, tableFilters, tableSort],
+  );
+  const isFiltered = hasActiveFilters(tableFilters);
+
+  // Exports follow the table's filters and order only when asked to.
+  const getExportData = () => (exportFiltered && (isFiltered || tableSort) ? visibleData : extractedData);
+
   const handleExportCsv = () => {
-    if (extractedData) {
-      exportToCsv(extractedData, 'RegistroAsistenciaDepurado.csv');
+    const data = getExportData();
+    if (data) {
+      exportToCsv(data, 'RegistroAsistenciaDepurado.csv');
     }
   };
   
   const handleExportHtml = () => {
-    if (extractedData) {
-      exportToHtml(extractedData, 'RegistroAsistenciaDepurado.html');
+    const data = getExportData();
+    if (data) {
+      exportToHtml(data, 'RegistroAsistenciaDepurado.html');
+    }
+  };
+
+  const handleExportXlsx = () => {
+    const data = getExportData();
+    if (data) {
+      exportToXlsx(data, 'RegistroAsistenciaDepurado.xlsx');
+    }
+  };
+
+  const handleExportPdf = (includeDepartmentSummary: boolean) => {
+    const data = getExportData();
+    if (data) {
+      exportToPdf(data, 'RegistroAsistencia.pdf', { includeDepartmentSummary });
     }
   };
-  
-  const tableHeaders = extractedData ? Object.keys(extractedData[0]) : [];
 
-  const getStatusBadge = (value: any) => {
-    if (typeof value !== 'string') return null;
-    if (value === 'NO HAY REGISTRO') {
+  const getStatusBadge = (tone: CellTone | null, value: CellValue) => {
+    if (tone === 'no-registro') {
       return <Badge variant="destructive" className="flex items-center gap-1.5"><AlertCircle className="h-3 w-3" /> {value}</Badge>;
     }
-    if (value === 'REGISTRO INCOMPLETO') {
+    if (tone === 'registro-incompleto') {
       return <Badge variant="secondary" className="bg-yellow-600/20 text-yellow-400 border-yellow-600/30 flex items-center gap-1.5"><Clock className="h-3 w-3" /> {value}</Badge>;
     }
+    if (tone === 'justificado') {
+      return <Badge variant="secondary" className="bg-sky-600/20 text-sky-400 border-sky-600/30 flex items-center gap-1.5"><FileCheck className="h-3 w-3" /> {value}</Badge>;
+    }
+    if (tone === 'dia-no-laborable') {
+      return <Badge variant="outline" className="border-slate-500/40 text-slate-400 flex items-center gap-1.5"><CalendarOff className="h-3 w-3" /> {value}</Badge>;
+    }
+    if (tone === 'directorio-alerta') {
+      return <Badge variant="outline" className="border-yellow-600/40 text-yellow-400 flex items-center gap-1.5 whitespace-normal"><UserX className="h-3 w-3 shrink-0" /> {value}</Badge>;
+    }
     return null;
   }
 
@@ -217,120 +477,141 @@ export default function ExcelExtractor() {
       <header className="text-center py-8">
         <h1 className="text-4xl font-bold tracking-tighter text-foreground sm:text-5xl md:text-6xl">Extractor de Asistencia</h1>
         <p className="text-muted-foreground mt-4 max-w-2xl mx-auto">Sube tu reporte de asistencia en Excel, configura los parámetros y obtén datos estructurados y analizados al instante.</p>
+        {isFirebaseConfigured() && (
+          <div className="mt-6 flex justify-center gap-2">
+            <Button asChild variant="outline" size="sm">
+              <Link href="/history">
+                <History className="mr-2 h-4 w-4" />
+                Historial de Ejecuciones
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link href="/directory">
+                <Users className="mr-2 h-4 w-4" />
+                Directorio de Empleados
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link href="/justifications">
+                <FileCheck className="mr-2 h-4 w-4" />
+                Justificaciones
+              </Link>
+            </Button>
+          </div>
+        )}
       </header>
 
       <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 items-start">
         <div className="lg:col-span-2 space-y-8">
           <Card className="shadow-lg">
             <CardHeader>
-              <CardTitle className="flex items-center gap-2"><span className="flex items-center justify-center h-8 w-8 rounded-full bg-primary text-primary-foreground font-bold text-lg">1</span> Subir Archivo</CardTitle>
-              <CardDescription>Selecciona o arrastra tu archivo .xlsx aquí.</CardDescription>
+              <CardTitle className="flex items-center gap-2"><span className="flex items-center justify-center h-8 w-8 rounded-full bg-primary text-primary-foreground font-bold text-lg">1</span> Subir Archivos</CardTitle>
+              <CardDescription>Selecciona o arrastra uno o varios archivos .xlsx, .xls, .ods o .csv aquí.</CardDescription>
             </CardHeader>
             <CardContent>
               <Label htmlFor="file-upload" className="relative block w-full border-2 border-dashed border-border rounded-lg p-12 text-center hover:border-primary hover:bg-muted transition-colors cursor-pointer">
                 <div className="flex flex-col items-center gap-2 text-muted-foreground">
                   <UploadCloud className="h-10 w-10 text-primary" />
-                  <span>{file ? 'Haz clic para seleccionar otro archivo' : 'Haz clic para seleccionar o arrastra y suelta un archivo'}</span>
-                  <Input id="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" />
+                  <span>{workbooks.length > 0 ? 'Haz clic para agregar más archivos' : 'Haz clic para seleccionar o arrastra y suelta archivos'}</span>
+                  <Input id="file-upload" type="file" multiple className="sr-only" onChange={handleFileChange} accept={ACCEPTED_FILE_TYPES} />
                 </div>
               </Label>
-              {file && (
-                <div className="mt-4 flex items-center gap-3 bg-secondary p-3 rounded-md border border-border">
-                  <FileIcon className="h-6 w-6 text-primary" />
-                  <div className="text-sm">
-                    <p className="font-medium text-foreground">{file.name}</p>
-                    <p className="text-muted-foreground">{(file.size / 1024).toFixed(2)} KB</p>
-                  </div>
+              {workbooks.length > 0 && (
+                <div className="mt-4">
+                  <WorkbookSourceList workbooks={workbooks} onChange={setWorkbooks} />
                 </div>
               )}
             </CardContent>
           </Card>
           
-          {file && (
+          {workbooks.length > 0 && (
             <Card className="shadow-lg">
               <CardHeader>
                  <CardTitle className="flex items-center gap-2"><span className="flex items-center justify-center h-8 w-8 rounded-full bg-primary text-primary-foreground font-bold text-lg">2</span> Configurar Extracción</CardTitle>
                 <CardDescription className="flex items-center gap-2 pt-1">
                   {isSuggesting && <Loader2 className="h-4 w-4 animate-spin" />}
-                  {isSuggesting ? "La IA está analizando tu archivo..." : (aiSuggestions ? "Hemos sugerido algunos valores basados en tu archivo." : "Completa los detalles para la extracción de datos.")}
+                  {isSuggesting ? "La IA está analizando tus archivos..." : (aiSuggestions ? "Hemos preseleccionado la hoja de asistencia de cada archivo." : "Completa los detalles para la extracción de datos.")}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <Form {...form}>
                   <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                    <p className="text-sm text-muted-foreground">
+                      {selectedSources.length} hoja(s) seleccionada(s) en {workbooks.length} archivo(s). Los empleados con el mismo ID se combinan.
+                    </p>
                     <FormField
                       control={form.control}
-                      name="sheetName"
+                      name="period"
                       render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Nombre de la Hoja</FormLabel>
-                          {isSuggesting ? (
-                            <div className="flex items-center space-x-2 h-10"><Loader2 className="h-4 w-4 animate-spin mr-2" /><span>Cargando sugerencias...</span></div>
-                          ) : (
-                          aiSuggestions && aiSuggestions.suggestedSheetNames.length > 0 ? (
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormItem className="flex flex-col">
+                          <FormLabel>Periodo</FormLabel>
+                          <Popover>
+                            <PopoverTrigger asChild>
                               <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Selecciona una hoja" />
-                                </SelectTrigger>
+                                <Button variant="outline" className={cn('justify-start text-left font-normal', !field.value.from && 'text-muted-foreground')}>
+                                  <CalendarIcon className="mr-2 h-4 w-4" />
+                                  {field.value.from
+                                    ? (field.value.to
+                                      ? `${format(field.value.from, 'dd MMM yyyy', { locale: es })} - ${format(field.value.to, 'dd MMM yyyy', { locale: es })}`
+                                      : format(field.value.from, 'dd MMM yyyy', { locale: es }))
+                                    : 'Selecciona las fechas'}
+                                </Button>
                               </FormControl>
-                              <SelectContent>
-                                {aiSuggestions.suggestedSheetNames.map(name => (
-                                  <SelectItem key={name} value={name}>{name}</SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                          ) : (
-                            <FormControl>
-                              <Input placeholder="ej. Reporte de Asistencia" {...field} />
-                            </FormControl>
-                          ))}
+                            </PopoverTrigger>
+                            <PopoverContent className="w-auto p-0" align="start">
+                              <Calendar
+                                mode="range"
+                                locale={es}
+                                numberOfMonths={2}
+                                defaultMonth={field.value.from}
+                                selected={{ from: field.value.from, to: field.value.to }}
+                                onSelect={(range) => field.onChange({ from: range?.from, to: range?.to })}
+                                initialFocus
+                              />
+                            </PopoverContent>
+                          </Popover>
+                          <FormDescription>
+                            {detectedPeriod
+                              ? `Periodo detectado en el encabezado del archivo (${detectedPeriod.startDate} ~ ${detectedPeriod.endDate}). Confírmalo o ajústalo.`
+                              : 'Fechas de inicio y fin; puede abarcar dos meses.'}
+                          </FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                       <FormField
-                        control={form.control}
-                        name="month"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Mes</FormLabel>
-                            <FormControl>
-                              <Input placeholder="ej. Jul" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="year"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Año</FormLabel>
-                            <FormControl>
-                              <Input type="number" placeholder="ej. 2025" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                     <FormField
-                        control={form.control}
-                        name="days"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Días</FormLabel>
-                            <FormControl>
-                              <Input placeholder="ej. 22, 23, 24" {...field} />
-                            </FormControl>
-                            <FormDescription>Números de los días separados por comas.</FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                    <Accordion type="single" collapsible>
+                      <AccordionItem value="schedule-policy">
+                        <AccordionTrigger>Política de Horario</AccordionTrigger>
+                        <AccordionContent>
+                          <SchedulePolicyEditor policy={schedulePolicy} onChange={setSchedulePolicy} />
+                        </AccordionContent>
+                      </AccordionItem>
+                      <AccordionItem value="holidays">
+                        <AccordionTrigger>
+                          Días Festivos{holidayCalendar.presets.length + holidayCalendar.customDays.length > 0 ? ` (${holidayCalendar.presets.length} calendario(s), ${holidayCalendar.customDays.length} día(s) de la empresa)` : ''}
+                        </AccordionTrigger>
+                        <AccordionContent className="space-y-4">
+                          <HolidayCalendarEditor calendar={holidayCalendar} onChange={setHolidayCalendar} defaultMonth={form.getValues('period').from} />
+                          {isFirebaseConfigured() && canManageSettings(profile) && (
+                            <Button type="button" size="sm" variant="outline" disabled={isSavingHolidays} onClick={handleSaveHolidays}>
+                              {isSavingHolidays && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                              Guardar como calendario de la empresa
+                            </Button>
+                          )}
+                        </AccordionContent>
+                      </AccordionItem>
+                    </Accordion>
+                    {directory.length > 0 && (
+                      <div className="flex items-start justify-between gap-4 rounded-lg border p-4">
+                        <div className="space-y-1">
+                          <Label htmlFor="reconcile-directory">Conciliar con el directorio</Label>
+                          <p className="text-sm text-muted-foreground">
+                            Corrige nombres y departamentos con los {directory.length} empleados del directorio y marca los IDs desconocidos y a quienes no aparecen en la hoja.
+                          </p>
+                        </div>
+                        <Switch id="reconcile-directory" checked={reconcileWithDirectory} onCheckedChange={setReconcileWithDirectory} />
+                      </div>
+                    )}
                      {aiSuggestions?.suggestedDateFormat && (
                       <p className="text-sm text-muted-foreground pt-2">Formato de fecha sugerido por la IA: <code className="bg-muted px-1.5 py-1 rounded-sm text-foreground">{aiSuggestions.suggestedDateFormat}</code></p>
                     )}
@@ -369,11 +650,7 @@ export default function ExcelExtractor() {
                         </DialogDescription>
                       </DialogHeader>
                       <div className="flex-grow overflow-hidden">
-                        <ScrollArea className="w-full h-full whitespace-nowrap rounded-md border">
-                            <DataTableView extractedData={extractedData} tableHeaders={tableHeaders} getStatusBadge={getStatusBadge} />
-                          <ScrollBar orientation="horizontal" />
-                          <ScrollBar orientation="vertical" />
-                        </ScrollArea>
+                        <AttendanceDataTable records={visibleData} columns={columns} getStatusBadge={getStatusBadge} sort={tableSort} onSortChange={setTableSort} onEditDay={handleEditDay} className="h-full" />
                       </div>
                        <DialogFooter>
                          <DialogClose asChild>
@@ -390,6 +667,22 @@ export default function ExcelExtractor() {
                     <FileCode className="mr-2 h-4 w-4" />
                     HTML
                   </Button>
+                  <Button onClick={handleExportXlsx} size="sm" variant="outline">
+                    <FileSpreadsheet className="mr-2 h-4 w-4" />
+                    XLSX
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button size="sm" variant="outline">
+                        <FileText className="mr-2 h-4 w-4" />
+                        PDF
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => handleExportPdf(false)}>Una hoja por empleado</DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => handleExportPdf(true)}>Por empleado y resumen por departamento</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
               )}
             </CardHeader>
@@ -398,16 +691,40 @@ export default function ExcelExtractor() {
                 <div className="flex flex-col items-center justify-center h-96 text-muted-foreground">
                   <Loader2 className="h-10 w-10 animate-spin mb-4 text-primary" />
                   <p className="text-lg">Procesando tu archivo...</p>
+                  {batchProgress && (
+                    <div className="mt-4 w-full max-w-md space-y-2 text-center text-sm">
+                      <Progress value={getBatchProgressPercent(batchProgress)} aria-label="Progreso del procesamiento" />
+                      <p>
+                        {batchProgress.current
+                          ? `Hoja ${Math.min(batchProgress.sheetsDone + 1, batchProgress.sheetsTotal)} de ${batchProgress.sheetsTotal}: ${formatSource(batchProgress.current)}`
+                          : 'Combinando los registros...'}
+                      </p>
+                      <p>
+                        {batchProgress.rowsScanned.toLocaleString('es-MX')} filas revisadas, {batchProgress.employeesFound.toLocaleString('es-MX')} empleados encontrados
+                      </p>
+                      <Button variant="outline" size="sm" onClick={handleCancelProcessing}>
+                        Cancelar
+                      </Button>
+                    </div>
+                  )}
                 </div>
               )}
               {!isProcessing && extractedData && (
-                <ScrollArea className="w-full whitespace-nowrap rounded-md border">
-                  <div className="max-h-[60vh] overflow-auto">
-                    <DataTableView extractedData={extractedData} tableHeaders={tableHeaders} getStatusBadge={getStatusBadge} />
-                  </div>
-                  <ScrollBar orientation="horizontal" />
-                  <ScrollBar orientation="vertical" />
-                </ScrollArea>
+                <div className="space-y-4">
+                  <AttendanceTableToolbar records={extractedData} columns={columns} filters={tableFilters} onChange={setTableFilters} />
+                  <Tabs defaultValue="table">
+                    <TabsList>
+                      <TabsTrigger value="table">Tabla</TabsTrigger>
+                      <TabsTrigger value="dashboard">Panel de Análisis</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="table">
+                      <AttendanceDataTable records={visibleData} columns={columns} getStatusBadge={getStatusBadge} sort={tableSort} onSortChange={setTableSort} onEditDay={handleEditDay} className="max-h-[60vh]" />
+                    </TabsContent>
+                    <TabsContent value="dashboard">
+                      <AttendanceDashboard records={visibleData} />
+                    </TabsContent>
+                  </Tabs>
+                </div>
               )}
               {!isProcessing && !extractedData && (
                 <div className="flex flex-col items-center justify-center h-96 text-center text-muted-foreground/80">
@@ -417,10 +734,38 @@ export default function ExcelExtractor() {
                 </div>
               )}
             </CardContent>
-             {extractedData && <CardFooter><p className="text-sm text-muted-foreground">Mostrando {extractedData.length} de {extractedData.length} registros.</p></CardFooter>}
+             {extractedData && (
+               <CardFooter className="flex flex-col items-start gap-3">
+                 <div className="flex items-center gap-3">
+                   <p className="text-sm text-muted-foreground">Mostrando {visibleData.length} de {extractedData.length} registros.</p>
+                   {(isFiltered || tableSort) && (
+                     <div className="flex items-center gap-2">
+                       <Switch id="export-filtered" checked={exportFiltered} onCheckedChange={setExportFiltered} />
+                       <Label htmlFor="export-filtered" className="text-sm font-normal">Exportar solo los registros filtrados, en este orden</Label>
+                     </div>
+                   )}
+                   {savedRunId && (
+                     <Badge variant="secondary" className="flex items-center gap-1.5"><CheckCircle2 className="h-3 w-3" /> Guardado en el historial</Badge>
+                   )}
+                   {isSavingRun && (
+                     <Badge variant="secondary" className="flex items-center gap-1.5"><Loader2 className="h-3 w-3 animate-spin" /> Guardando en el historial...</Badge>
+                   )}
+                 </div>
+                 {sourceReports.length > 1 && (
+                   <div className="flex flex-wrap gap-2">
+                     {sourceReports.map(source => (
+                       <Badge key={formatSource(source)} variant={source.error ? 'destructive' : 'secondary'} title={source.error}>
+                         {formatSource(source)}: {source.error ? 'error' : `${source.employeeCount} empleados`}
+                       </Badge>
+                     ))}
+                   </div>
+                 )}
+               </CardFooter>
+             )}
           </Card>
         </div>
       </div>
+      <PunchCorrectionDialog target={correctionTarget} onClose={() => setCorrectionTarget(null)} onSave={handleSaveCorrection} />
     </div>
   );
 }
@@ -0,0 +1,110 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Trash2 } from 'lucide-react';
+import { HOLIDAY_PRESET_IDS, HOLIDAY_PRESET_LABELS, Holiday, HolidayCalendar, getPresetHolidays } from '@/lib/holidays';
+import { parseIsoDate, toIsoDate } from '@/lib/period';
+
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+/**
+ * Edits the national presets and the company days of a holiday calendar. Clicking a day in the calendar adds or
+ * removes a company day; preset holidays are highlighted but cannot be toggled one by one.
+ */
+export default function HolidayCalendarEditor({ calendar, onChange, defaultMonth }: { calendar: HolidayCalendar, onChange: (calendar: HolidayCalendar) => void, defaultMonth?: Date }) {
+  const [month, setMonth] = useState<Date>(defaultMonth ?? new Date());
+
+  // Preset holidays of the shown year and its neighbours, so the outside days around New Year are covered too.
+  const presetHolidays = useMemo(() => {
+    const year = month.getFullYear();
+    return calendar.presets.flatMap(preset => [year - 1, year, year + 1].flatMap(y => getPresetHolidays(preset, y)));
+  }, [calendar.presets, month]);
+  const visiblePresets = presetHolidays.filter(h => h.date.slice(0, 7) === toIsoDate(month).slice(0, 7));
+
+  const togglePreset = (preset: (typeof HOLIDAY_PRESET_IDS)[number], checked: boolean) => {
+    const presets = checked ? [...calendar.presets, preset] : calendar.presets.filter(p => p !== preset);
+    onChange({ ...calendar, presets: HOLIDAY_PRESET_IDS.filter(p => presets.includes(p)) });
+  };
+
+  const selectDays = (dates: Date[] | undefined) => {
+    const names = new Map(calendar.customDays.map(h => [h.date, h.name]));
+    const customDays: Holiday[] = (dates ?? [])
+      .map(toIsoDate)
+      .sort()
+      .map(date => ({ date, name: names.get(date) ?? '' }));
+    onChange({ ...calendar, customDays });
+  };
+
+  const updateDay = (date: string, name: string) => {
+    onChange({ ...calendar, customDays: calendar.customDays.map(h => (h.date === date ? { ...h, name } : h)) });
+  };
+
+  const removeDay = (date: string) => {
+    onChange({ ...calendar, customDays: calendar.customDays.filter(h => h.date !== date) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <Label>Calendario oficial de México</Label>
+        {HOLIDAY_PRESET_IDS.map(preset => (
+          <div key={preset} className="flex items-center gap-2">
+            <Checkbox
+              id={`holiday-preset-${preset}`}
+              checked={calendar.presets.includes(preset)}
+              onCheckedChange={(checked) => togglePreset(preset, checked === true)}
+            />
+            <Label htmlFor={`holiday-preset-${preset}`} className="font-normal">{HOLIDAY_PRESET_LABELS[preset]}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Días inhábiles de la empresa</Label>
+        <Calendar
+          mode="multiple"
+          locale={es}
+          month={month}
+          onMonthChange={setMonth}
+          selected={calendar.customDays.map(h => parseIsoDate(h.date)!)}
+          onSelect={selectDays}
+          modifiers={{ preset: presetHolidays.map(h => parseIsoDate(h.date)!) }}
+          modifiersClassNames={{ preset: 'border border-primary text-primary' }}
+          className="rounded-md border w-fit"
+        />
+        {visiblePresets.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Festivos del mes: {visiblePresets.map(h => `${format(parseIsoDate(h.date)!, 'd MMM', { locale: es })} (${h.name})`).join(', ')}.
+          </p>
+        )}
+        <p className="text-sm text-muted-foreground">
+          Los días con 0 horas requeridas en la política de horario también se tratan como días de descanso.
+        </p>
+      </div>
+
+      {calendar.customDays.length > 0 && (
+        <div className="space-y-2">
+          {calendar.customDays.map(day => (
+            <div key={day.date} className="flex items-center gap-2">
+              <span className="w-28 shrink-0 text-sm">{format(parseIsoDate(day.date)!, 'dd MMM yyyy', { locale: es })}</span>
+              <Input
+                placeholder="Motivo (p. ej. Aniversario de la empresa)"
+                value={day.name}
+                onChange={(e) => updateDay(day.date, e.target.value)}
+              />
+              <Button type="button" size="icon" variant="ghost" onClick={() => removeDay(day.date)} aria-label="Quitar día inhábil">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { DateRange } from 'react-day-picker';
+import { CalendarIcon, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { DirectoryEmployee, normalizeEmployeeId } from '@/lib/employee-directory';
+import { listDirectory } from '@/lib/directory-store';
+import { JUSTIFICATION_LABELS, JUSTIFICATION_TYPES, Justification, JustificationType } from '@/lib/justifications';
+import { createJustification, deleteJustification, listJustifications } from '@/lib/justification-store';
+import { toIsoDate } from '@/lib/period';
+import { canManageJustifications } from '@/lib/roles';
+import { cn } from '@/lib/utils';
+
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+
+interface JustificationDraft {
+  employeeId: string;
+  type: JustificationType;
+  range: DateRange | undefined;
+  note: string;
+  approvedBy: string;
+}
+
+const EMPTY_DRAFT: JustificationDraft = { employeeId: '', type: 'vacaciones', range: undefined, note: '', approvedBy: '' };
+
+export default function JustificationManager() {
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const [justifications, setJustifications] = useState<Justification[] | null>(null);
+  const [directory, setDirectory] = useState<DirectoryEmployee[]>([]);
+  const [draft, setDraft] = useState<JustificationDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setJustifications(await listJustifications());
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'No se pudieron Cargar las Justificaciones', description: error.message || 'Ocurrió un error desconocido.' });
+      setJustifications([]);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (!profile) return;
+    refresh();
+    listDirectory().then(setDirectory).catch((error) => console.error('No se pudo cargar el directorio de empleados:', error));
+  }, [profile, refresh]);
+
+  const namesById = useMemo(() => new Map(directory.map(e => [normalizeEmployeeId(e.id), e.name])), [directory]);
+
+  const handleCreate = async () => {
+    if (!draft.employeeId.trim() || !draft.range?.from) {
+      toast({ variant: 'destructive', title: 'Faltan Datos', description: 'Indica el ID del empleado y las fechas de la justificación.' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createJustification(
+        {
+          employeeId: draft.employeeId,
+          type: draft.type,
+          startDate: toIsoDate(draft.range.from),
+          endDate: toIsoDate(draft.range.to ?? draft.range.from),
+          note: draft.note.trim(),
+          approvedBy: draft.approvedBy.trim(),
+        },
+        profile ? { uid: profile.uid, email: profile.email } : null,
+      );
+      toast({ title: 'Justificación Registrada', description: `Se registró ${JUSTIFICATION_LABELS[draft.type].toLowerCase()} para el empleado ${draft.employeeId}.` });
+      setDraft(EMPTY_DRAFT);
+      await refresh();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'No se pudo Registrar', description: error.message || 'Ocurrió un error desconocido.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (justification: Justification) => {
+    setDeletingId(justification.id);
+    try {
+      await deleteJustification(justification.id);
+      setJustifications(current => current?.filter(j => j.id !== justification.id) ?? null);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'No se pudo Eliminar', description: error.message || 'Ocurrió un error desconocido.' });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const canManage = canManageJustifications(profile);
+
+  return (
+    <div className="space-y-8">
+      {canManage && (
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle>Nueva Justificación</CardTitle>
+            <CardDescription>Los días cubiertos que no se trabajaron completos se reportan como justificados y no cuentan como incumplidos.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="justification-employee">ID del empleado</Label>
+              <Input
+                id="justification-employee"
+                list="justification-employees"
+                value={draft.employeeId}
+                onChange={(e) => setDraft({ ...draft, employeeId: e.target.value })}
+              />
+              <datalist id="justification-employees">
+                {directory.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+              </datalist>
+              {draft.employeeId && namesById.get(normalizeEmployeeId(draft.employeeId)) && (
+                <p className="text-sm text-muted-foreground">{namesById.get(normalizeEmployeeId(draft.employeeId))}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={draft.type} onValueChange={(value) => setDraft({ ...draft, type: value as JustificationType })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {JUSTIFICATION_TYPES.map(type => <SelectItem key={type} value={type}>{JUSTIFICATION_LABELS[type]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Fechas</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className={cn('w-full justify-start text-left font-normal', !draft.range?.from && 'text-muted-foreground')}>
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {draft.range?.from
+                      ? (draft.range.to && draft.range.to.getTime() !== draft.range.from.getTime()
+                        ? `${format(draft.range.from, 'dd MMM yyyy', { locale: es })} - ${format(draft.range.to, 'dd MMM yyyy', { locale: es })}`
+                        : format(draft.range.from, 'dd MMM yyyy', { locale: es }))
+                      : 'Selecciona las fechas'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    locale={es}
+                    numberOfMonths={2}
+                    selected={draft.range}
+                    onSelect={(range) => setDraft({ ...draft, range })}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-2 lg:col-span-2">
+              <Label htmlFor="justification-note">Nota</Label>
+              <Input id="justification-note" value={draft.note} onChange={(e) => setDraft({ ...draft, note: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="justification-approver">Autorizó</Label>
+              <Input id="justification-approver" value={draft.approvedBy} onChange={(e) => setDraft({ ...draft, approvedBy: e.target.value })} />
+            </div>
+            <div className="sm:col-span-2 lg:col-span-3">
+              <Button type="button" disabled={isSaving} onClick={handleCreate}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                Registrar
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Justificaciones Registradas</CardTitle>
+          <CardDescription>Se aplican automáticamente a las extracciones cuyo periodo las incluye.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {justifications === null ? (
+            <div className="flex items-center justify-center h-48 text-muted-foreground"><Loader2 className="h-6 w-6 animate-spin mr-2" />Cargando justificaciones...</div>
+          ) : justifications.length === 0 ? (
+            <div className="flex items-center justify-center h-48 text-muted-foreground">Aún no hay justificaciones registradas.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Empleado</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Periodo</TableHead>
+                  <TableHead>Nota</TableHead>
+                  <TableHead>Autorizó</TableHead>
+                  {canManage && <TableHead className="text-right">Acciones</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {justifications.map(justification => (
+                  <TableRow key={justification.id}>
+                    <TableCell>
+                      <span className="font-mono">{justification.employeeId}</span>
+                      {namesById.get(normalizeEmployeeId(justification.employeeId)) && (
+                        <span className="ml-2 text-muted-foreground">{namesById.get(normalizeEmployeeId(justification.employeeId))}</span>
+                      )}
+                    </TableCell>
+                    <TableCell><Badge variant="secondary">{JUSTIFICATION_LABELS[justification.type]}</Badge></TableCell>
+                    <TableCell className="whitespace-nowrap">{justification.startDate} ~ {justification.endDate}</TableCell>
+                    <TableCell>{justification.note}</TableCell>
+                    <TableCell>{justification.approvedBy}</TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" disabled={deletingId === justification.id} onClick={() => handleDelete(justification)} aria-label="Eliminar justificación">
+                          {deletingId === justification.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
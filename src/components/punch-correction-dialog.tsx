@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { EmployeeAttendance } from '@/lib/attendance';
+import { CorrectedPunch, formatCorrectionAuthor } from '@/lib/punch-corrections';
+import { parseIsoDate } from '@/lib/period';
+import { parseTime } from '@/lib/schedule-policy';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+export interface CorrectionTarget {
+  record: EmployeeAttendance;
+  date: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function sortPunches(punches: CorrectedPunch[]): CorrectedPunch[] {
+  const absolute = (p: CorrectedPunch) => parseTime(p.time)! + (p.nextDay ? MINUTES_PER_DAY : 0);
+  return [...punches].sort((a, b) => absolute(a) - absolute(b));
+}
+
+// Problems the user can fix in the dialog; null when the punches can be saved.
+function checkPunches(punches: CorrectedPunch[]): string | null {
+  if (punches.some(p => parseTime(p.time) === null)) return 'Completa o elimina las checadas sin hora.';
+  const keys = punches.map(p => `${p.time}${p.nextDay ? '+1' : ''}`);
+  if (new Set(keys).size !== keys.length) return 'Hay checadas repetidas.';
+  return null;
+}
+
+export default function PunchCorrectionDialog({ target, onClose, onSave }: {
+  target: CorrectionTarget | null,
+  onClose: () => void,
+  // Punches arrive sorted; the dialog stays open if the promise rejects.
+  onSave: (punches: CorrectedPunch[], reason: string) => Promise<void>,
+}) {
+  const [punches, setPunches] = useState<CorrectedPunch[]>([]);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const day = target?.record.days.find(d => d.date === target.date);
+  const history = target ? (target.record.corrections ?? []).filter(c => c.date === target.date) : [];
+
+  useEffect(() => {
+    if (!target) return;
+    const current = target.record.days.find(d => d.date === target.date);
+    setPunches((current?.punches ?? []).map(p => (p.nextDay ? { time: p.time, nextDay: true } : { time: p.time })));
+    setReason('');
+  }, [target]);
+
+  const problem = checkPunches(punches);
+  const updatePunch = (index: number, changes: Partial<CorrectedPunch>) => {
+    setPunches(punches.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(sortPunches(punches), reason.trim());
+    } catch {
+      // The caller reports the error.
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const date = target ? parseIsoDate(target.date) : null;
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Corregir Checadas</DialogTitle>
+          <DialogDescription>
+            {target && `${target.record.employee.name || target.record.employee.id} · ${date ? format(date, "EEEE d 'de' MMMM yyyy", { locale: es }) : target.date}`}
+            {day?.rawValue && <span className="block">Celda original: {day.rawValue}</span>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Checadas</Label>
+            {punches.length === 0 && <p className="text-sm text-muted-foreground">Sin checadas; el día quedará sin registro.</p>}
+            {punches.map((punch, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <Input
+                  type="time"
+                  className="w-32"
+                  aria-label={`Checada ${index + 1}`}
+                  value={punch.time}
+                  onChange={(e) => updatePunch(index, { time: e.target.value })}
+                />
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`punch-next-day-${index}`}
+                    checked={punch.nextDay === true}
+                    onCheckedChange={(checked) => updatePunch(index, { nextDay: checked === true || undefined })}
+                  />
+                  <Label htmlFor={`punch-next-day-${index}`} className="font-normal">Día siguiente</Label>
+                </div>
+                <Button type="button" size="icon" variant="ghost" aria-label="Eliminar checada" onClick={() => setPunches(punches.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {punches.some(p => p.nextDay) && (
+              <p className="text-sm text-muted-foreground">Una salida del día siguiente se quita de las checadas de ese día para no contarla dos veces.</p>
+            )}
+            <Button type="button" variant="outline" size="sm" onClick={() => setPunches([...punches, { time: '' }])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Agregar checada
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="correction-reason">Motivo</Label>
+            <Textarea
+              id="correction-reason"
+              placeholder="Ej. Olvidó checar la salida; confirmado por su jefe inmediato."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          {history.length > 0 && (
+            <div className="space-y-1 text-sm text-muted-foreground">
+              <p className="font-medium text-foreground">Correcciones anteriores</p>
+              {history.map((c, i) => (
+                <p key={i}>
+                  {format(new Date(c.correctedAt), 'dd/MM/yyyy HH:mm')} · {formatCorrectionAuthor(c) || 'Sin usuario'}: {c.previousPunches.join(', ') || 'sin checadas'} → {c.newPunches.join(', ') || 'sin checadas'} ({c.reason})
+                </p>
+              ))}
+            </div>
+          )}
+
+          {problem && <p className="text-sm text-destructive">{problem}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" disabled={isSaving} onClick={onClose}>Cancelar</Button>
+          <Button type="button" disabled={isSaving || problem !== null || !reason.trim()} onClick={handleSave}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Guardar corrección
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
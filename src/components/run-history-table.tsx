@@ -0,0 +1,190 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Download, FolderOpen, Loader2, Trash2 } from 'lucide-react';
+import { AttendanceRun, deleteRun, listRuns, loadRunRecords } from '@/lib/run-history';
+import { isFirebaseConfigured } from '@/lib/firebase';
+import { EmployeeAttendance } from '@/lib/attendance';
+import { exportToCsv } from '@/lib/csv-utils';
+import { exportToHtml } from '@/lib/html-utils';
+import { exportToXlsx } from '@/lib/xlsx-utils';
+import { exportToPdf } from '@/lib/pdf-utils';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { canManageRuns } from '@/lib/roles';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+type ExportFormat = 'csv' | 'xlsx' | 'html' | 'pdf';
+
+const EXPORTERS: Record<ExportFormat, { label: string; run: (data: EmployeeAttendance[], baseName: string) => void }> = {
+  csv: { label: 'CSV', run: (data, baseName) => exportToCsv(data, `${baseName}.csv`) },
+  xlsx: { label: 'XLSX', run: (data, baseName) => exportToXlsx(data, `${baseName}.xlsx`) },
+  html: { label: 'HTML', run: (data, baseName) => exportToHtml(data, `${baseName}.html`) },
+  pdf: { label: 'PDF', run: (data, baseName) => exportToPdf(data, `${baseName}.pdf`, { includeDepartmentSummary: true }) },
+};
+
+export default function RunHistoryTable() {
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const [runs, setRuns] = useState<AttendanceRun[] | null>(null);
+  // Id of the run whose records are being loaded for an export or that is being deleted.
+  const [busyRunId, setBusyRunId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+    try {
+      setRuns(await listRuns(profile));
+    } catch (error: any) {
+      console.error('No se pudo cargar el historial:', error);
+      toast({ variant: 'destructive', title: 'No se pudo Cargar el Historial', description: error.message || 'Ocurrió un error desconocido.' });
+      setRuns([]);
+    }
+  }, [profile, toast]);
+
+  useEffect(() => {
+    if (isFirebaseConfigured()) refresh();
+  }, [refresh]);
+
+  const handleExport = async (run: AttendanceRun, exportFormat: ExportFormat) => {
+    if (!profile) return;
+    setBusyRunId(run.id);
+    try {
+      const records = await loadRunRecords(run.id, profile);
+      EXPORTERS[exportFormat].run(records, `RegistroAsistencia_${run.config.startDate}_${run.config.endDate}`);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Falló la Exportación', description: error.message || 'Ocurrió un error desconocido.' });
+    } finally {
+      setBusyRunId(null);
+    }
+  };
+
+  const handleDelete = async (run: AttendanceRun) => {
+    setBusyRunId(run.id);
+    try {
+      await deleteRun(run.id);
+      setRuns(current => current?.filter(r => r.id !== run.id) ?? null);
+      toast({ title: 'Ejecución Eliminada', description: `Se eliminó la ejecución del ${format(run.createdAt, 'dd/MM/yyyy HH:mm')}.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'No se pudo Eliminar', description: error.message || 'Ocurrió un error desconocido.' });
+    } finally {
+      setBusyRunId(null);
+    }
+  };
+
+  if (!isFirebaseConfigured()) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Historial no Disponible</CardTitle>
+          <CardDescription>Configura Firebase (NEXT_PUBLIC_FIREBASE_PROJECT_ID) para guardar las ejecuciones.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle>Ejecuciones Guardadas</CardTitle>
+        <CardDescription>Abre, vuelve a exportar o elimina los resultados de extracciones anteriores.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {runs === null ? (
+          <div className="flex items-center justify-center h-48 text-muted-foreground"><Loader2 className="h-6 w-6 animate-spin mr-2" />Cargando historial...</div>
+        ) : runs.length === 0 ? (
+          <div className="flex items-center justify-center h-48 text-muted-foreground">Aún no hay ejecuciones guardadas.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Usuario</TableHead>
+                <TableHead>Archivos</TableHead>
+                <TableHead>Periodo</TableHead>
+                <TableHead className="text-right">Empleados</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map(run => (
+                <TableRow key={run.id}>
+                  <TableCell className="whitespace-nowrap">{format(run.createdAt, "dd/MM/yyyy HH:mm", { locale: es })}</TableCell>
+                  <TableCell>{run.createdBy?.email ?? '—'}</TableCell>
+                  <TableCell>
+                    {run.files.map(file => <div key={`${file.name}:${file.lastModified}`} className="truncate max-w-xs">{file.name}</div>)}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{run.config.startDate} ~ {run.config.endDate}</TableCell>
+                  <TableCell className="text-right">{run.employeeCount}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-2">
+                      <Button asChild size="sm" variant="outline">
+                        <Link href={`/?run=${run.id}`}>
+                          <FolderOpen className="mr-2 h-4 w-4" />
+                          Abrir
+                        </Link>
+                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button size="sm" variant="outline" disabled={busyRunId === run.id}>
+                            {busyRunId === run.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                            Exportar
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {(Object.keys(EXPORTERS) as ExportFormat[]).map(exportFormat => (
+                            <DropdownMenuItem key={exportFormat} onSelect={() => handleExport(run, exportFormat)}>
+                              {EXPORTERS[exportFormat].label}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      {canManageRuns(profile) && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button size="icon" variant="ghost" disabled={busyRunId === run.id} aria-label="Eliminar ejecución">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>¿Eliminar esta ejecución?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Se borrarán del historial los {run.employeeCount} registros procesados el {format(run.createdAt, 'dd/MM/yyyy HH:mm')}. Los archivos originales no se modifican.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleDelete(run)}>Eliminar</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
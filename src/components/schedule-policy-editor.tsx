@@ -0,0 +1,321 @@
+"use client";
+
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  DepartmentOverride,
+  OvertimePolicy,
+  ROUNDING_MODES,
+  ROUNDING_MODE_LABELS,
+  RoundingMode,
+  RoundingPolicy,
+  RoundingRule,
+  SchedulePolicy,
+  Weekday,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+} from '@/lib/schedule-policy';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+function parseHours(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) || n < 0 ? undefined : n;
+}
+
+// Time inputs give '' when cleared, which means no scheduled time.
+function parseTimeInput(value: string): string | null {
+  return value === '' ? null : value;
+}
+
+export default function SchedulePolicyEditor({ policy, onChange }: { policy: SchedulePolicy, onChange: (policy: SchedulePolicy) => void }) {
+  const updateOverride = (index: number, override: DepartmentOverride) => {
+    onChange({
+      ...policy,
+      departmentOverrides: policy.departmentOverrides.map((o, i) => (i === index ? override : o)),
+    });
+  };
+
+  const addOverride = () => {
+    onChange({ ...policy, departmentOverrides: [...policy.departmentOverrides, { department: '' }] });
+  };
+
+  const removeOverride = (index: number) => {
+    onChange({ ...policy, departmentOverrides: policy.departmentOverrides.filter((_, i) => i !== index) });
+  };
+
+  const updateRounding = (role: keyof RoundingPolicy, rule: Partial<RoundingRule>) => {
+    onChange({ ...policy, rounding: { ...policy.rounding, [role]: { ...policy.rounding[role], ...rule } } });
+  };
+
+  const updateOvertime = (field: keyof OvertimePolicy, value: string) => {
+    onChange({ ...policy, overtime: { ...policy.overtime, [field]: parseHours(value) ?? 0 } });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>Horas requeridas por día</Label>
+        <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+          {WEEKDAYS.map((weekday) => (
+            <div key={weekday} className="space-y-1">
+              <span className="text-xs text-muted-foreground">{WEEKDAY_LABELS[weekday].slice(0, 3)}</span>
+              <Input
+                type="number"
+                step="0.25"
+                min="0"
+                value={policy.requiredHours[weekday]}
+                onChange={(e) => onChange({
+                  ...policy,
+                  requiredHours: { ...policy.requiredHours, [weekday]: parseHours(e.target.value) ?? 0 },
+                })}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="grace-minutes">Minutos de tolerancia</Label>
+        <Input
+          id="grace-minutes"
+          type="number"
+          min="0"
+          value={policy.graceMinutes}
+          onChange={(e) => onChange({ ...policy, graceMinutes: parseInt(e.target.value, 10) || 0 })}
+        />
+        <p className="text-sm text-muted-foreground">Minutos que se pueden restar a las horas requeridas sin marcar el día como incumplido.</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Horario de entrada y salida</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">Entrada</span>
+            <Input
+              type="time"
+              aria-label="Hora de entrada"
+              value={policy.startTime ?? ''}
+              onChange={(e) => onChange({ ...policy, startTime: parseTimeInput(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">Salida</span>
+            <Input
+              type="time"
+              aria-label="Hora de salida"
+              value={policy.endTime ?? ''}
+              onChange={(e) => onChange({ ...policy, endTime: parseTimeInput(e.target.value) })}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">Déjalo vacío para evaluar solo las horas trabajadas. El horario del directorio de empleados tiene prioridad.</p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="late-tolerance">Tolerancia de entrada (min)</Label>
+          <Input
+            id="late-tolerance"
+            type="number"
+            min="0"
+            value={policy.lateToleranceMinutes}
+            onChange={(e) => onChange({ ...policy, lateToleranceMinutes: parseInt(e.target.value, 10) || 0 })}
+          />
+          <p className="text-sm text-muted-foreground">Una entrada dentro de estos minutos no cuenta como retardo.</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="late-arrivals-per-absence">Retardos por falta</Label>
+          <Input
+            id="late-arrivals-per-absence"
+            type="number"
+            min="0"
+            value={policy.lateArrivalsPerAbsence}
+            onChange={(e) => onChange({ ...policy, lateArrivalsPerAbsence: parseInt(e.target.value, 10) || 0 })}
+          />
+          <p className="text-sm text-muted-foreground">Retardos en un mes que equivalen a una falta. 0 desactiva la regla.</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Redondeo de checadas</Label>
+        {(['entry', 'exit'] as const).map(role => (
+          <div key={role} className="grid grid-cols-[5rem_1fr_1fr_1fr] items-end gap-2">
+            <span className="pb-2 text-sm">{role === 'entry' ? 'Entrada' : 'Salida'}</span>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Modo</span>
+              <Select value={policy.rounding[role].mode} onValueChange={(value) => updateRounding(role, { mode: value as RoundingMode })}>
+                <SelectTrigger aria-label={`Modo de redondeo de ${role === 'entry' ? 'entrada' : 'salida'}`}><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ROUNDING_MODES.map(mode => <SelectItem key={mode} value={mode}>{ROUNDING_MODE_LABELS[mode]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Intervalo (min)</span>
+              <Input
+                type="number"
+                min="1"
+                disabled={policy.rounding[role].mode === 'none'}
+                value={policy.rounding[role].intervalMinutes}
+                onChange={(e) => updateRounding(role, { intervalMinutes: parseInt(e.target.value, 10) || 1 })}
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Gracia (min)</span>
+              <Input
+                type="number"
+                min="0"
+                disabled={policy.rounding[role].mode === 'none'}
+                value={policy.rounding[role].graceMinutes}
+                onChange={(e) => updateRounding(role, { graceMinutes: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+          </div>
+        ))}
+        <p className="text-sm text-muted-foreground">
+          Las horas se calculan con las checadas redondeadas; la hora registrada se conserva junto a la redondeada. Una entrada dentro de la gracia después de la marca, o una salida dentro de la gracia antes de ella, se ajusta a la marca. Los retardos y las salidas anticipadas se miden con la hora registrada.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Horas extra</Label>
+        <div className="grid gap-2 sm:grid-cols-3">
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">Límite semanal (h)</span>
+            <Input
+              type="number"
+              step="0.5"
+              min="0"
+              aria-label="Límite semanal de horas"
+              value={policy.overtime.weeklyHours}
+              onChange={(e) => updateOvertime('weeklyHours', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">Dobles por día (h)</span>
+            <Input
+              type="number"
+              step="0.5"
+              min="0"
+              aria-label="Horas extra dobles por día"
+              value={policy.overtime.doubleHoursPerDay}
+              onChange={(e) => updateOvertime('doubleHoursPerDay', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">Dobles por semana (h)</span>
+            <Input
+              type="number"
+              step="0.5"
+              min="0"
+              aria-label="Horas extra dobles por semana"
+              value={policy.overtime.doubleHoursPerWeek}
+              onChange={(e) => updateOvertime('doubleHoursPerWeek', e.target.value)}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Son horas extra las trabajadas después de las requeridas del día y, con un límite semanal, las que lo superan en la semana (lunes a domingo). Las que pasan de los límites de dobles se pagan triples; 0 quita el límite.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="shift-aware">Detectar turnos que cruzan la medianoche</Label>
+            <p className="text-sm text-muted-foreground">Una salida en la columna del día siguiente se acredita al día de entrada.</p>
+          </div>
+          <Switch id="shift-aware" checked={policy.shiftAware} onCheckedChange={(checked) => onChange({ ...policy, shiftAware: checked })} />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="overnight">Turno nocturno</Label>
+            <p className="text-sm text-muted-foreground">El horario general siempre termina al día siguiente.</p>
+          </div>
+          <Switch id="overnight" checked={policy.overnight} onCheckedChange={(checked) => onChange({ ...policy, overnight: checked })} />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Excepciones por departamento</Label>
+          <Button type="button" size="sm" variant="outline" onClick={addOverride}>
+            <Plus className="mr-2 h-4 w-4" />
+            Agregar
+          </Button>
+        </div>
+        {policy.departmentOverrides.length === 0 && (
+          <p className="text-sm text-muted-foreground">Todos los departamentos usan el horario general.</p>
+        )}
+        {policy.departmentOverrides.map((override, index) => (
+          <div key={index} className="space-y-2 rounded-md border border-border p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Departamento"
+                value={override.department}
+                onChange={(e) => updateOverride(index, { ...override, department: e.target.value })}
+              />
+              <Input
+                type="number"
+                min="0"
+                placeholder="Tolerancia"
+                className="w-28"
+                value={override.graceMinutes ?? ''}
+                onChange={(e) => updateOverride(index, { ...override, graceMinutes: parseHours(e.target.value) })}
+              />
+              <Button type="button" size="icon" variant="ghost" onClick={() => removeOverride(index)} aria-label="Eliminar excepción">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+              {WEEKDAYS.map((weekday: Weekday) => (
+                <div key={weekday} className="space-y-1">
+                  <span className="text-xs text-muted-foreground">{WEEKDAY_LABELS[weekday].slice(0, 3)}</span>
+                  <Input
+                    type="number"
+                    step="0.25"
+                    min="0"
+                    placeholder={String(policy.requiredHours[weekday])}
+                    value={override.requiredHours?.[weekday] ?? ''}
+                    onChange={(e) => updateOverride(index, {
+                      ...override,
+                      requiredHours: { ...override.requiredHours, [weekday]: parseHours(e.target.value) },
+                    })}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="time"
+                aria-label="Hora de entrada del departamento"
+                value={override.startTime ?? ''}
+                onChange={(e) => updateOverride(index, { ...override, startTime: e.target.value === '' ? undefined : e.target.value })}
+              />
+              <Input
+                type="time"
+                aria-label="Hora de salida del departamento"
+                value={override.endTime ?? ''}
+                onChange={(e) => updateOverride(index, { ...override, endTime: e.target.value === '' ? undefined : e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`override-overnight-${index}`}
+                checked={override.overnight ?? policy.overnight}
+                onCheckedChange={(checked) => updateOverride(index, { ...override, overnight: checked === true })}
+              />
+              <Label htmlFor={`override-overnight-${index}`} className="font-normal">Turno nocturno</Label>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
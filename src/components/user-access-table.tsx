@@ -0,0 +1,149 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { ROLE_LABELS, USER_ROLES, UserProfile, UserRole, canManageUsers } from '@/lib/roles';
+import { listUserProfiles, updateUserAccess } from '@/lib/user-profiles';
+import { useToast } from '@/hooks/use-toast';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const NO_ROLE = 'none';
+
+interface AccessDraft {
+  role: UserRole | null;
+  // Comma-separated department names as typed by the admin.
+  departments: string;
+}
+
+function toDraft(profile: UserProfile): AccessDraft {
+  return { role: profile.role, departments: profile.departments.join(', ') };
+}
+
+export default function UserAccessTable() {
+  const { toast } = useToast();
+  const { profile: currentProfile, refreshProfile } = useAuth();
+  const [profiles, setProfiles] = useState<UserProfile[] | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, AccessDraft>>({});
+  const [savingUid, setSavingUid] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const loaded = await listUserProfiles();
+      setProfiles(loaded);
+      setDrafts(Object.fromEntries(loaded.map(p => [p.uid, toDraft(p)])));
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'No se pudieron Cargar los Usuarios', description: error.message || 'Ocurrió un error desconocido.' });
+      setProfiles([]);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (canManageUsers(currentProfile)) refresh();
+  }, [currentProfile, refresh]);
+
+  const updateDraft = (uid: string, change: Partial<AccessDraft>) => {
+    setDrafts(current => ({ ...current, [uid]: { ...current[uid], ...change } }));
+  };
+
+  const handleSave = async (profile: UserProfile) => {
+    const draft = drafts[profile.uid];
+    const departments = draft.departments.split(',');
+    if (draft.role === 'department_head' && departments.every(d => !d.trim())) {
+      toast({ variant: 'destructive', title: 'Faltan Departamentos', description: 'Asigna al menos un departamento a un jefe de departamento.' });
+      return;
+    }
+
+    setSavingUid(profile.uid);
+    try {
+      await updateUserAccess(profile.uid, draft.role, draft.role === 'department_head' ? departments : []);
+      toast({ title: 'Acceso Actualizado', description: `Se guardó el acceso de ${profile.email ?? profile.uid}.` });
+      if (profile.uid === currentProfile?.uid) {
+        await refreshProfile();
+      } else {
+        await refresh();
+      }
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'No se pudo Guardar', description: error.message || 'Ocurrió un error desconocido.' });
+    } finally {
+      setSavingUid(null);
+    }
+  };
+
+  if (!canManageUsers(currentProfile)) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Acceso Restringido</CardTitle>
+          <CardDescription>Solo los administradores pueden asignar roles.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle>Usuarios y Roles</CardTitle>
+        <CardDescription>Los usuarios aparecen aquí después de su primer inicio de sesión. Los jefes de departamento solo ven a los empleados de los departamentos asignados.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {profiles === null ? (
+          <div className="flex items-center justify-center h-48 text-muted-foreground"><Loader2 className="h-6 w-6 animate-spin mr-2" />Cargando usuarios...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Correo</TableHead>
+                <TableHead className="w-56">Rol</TableHead>
+                <TableHead>Departamentos</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {profiles.map(profile => {
+                const draft = drafts[profile.uid] ?? toDraft(profile);
+                return (
+                  <TableRow key={profile.uid}>
+                    <TableCell>{profile.email ?? profile.uid}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={draft.role ?? NO_ROLE}
+                        onValueChange={(value) => updateDraft(profile.uid, { role: value === NO_ROLE ? null : value as UserRole })}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_ROLE}>Sin acceso</SelectItem>
+                          {USER_ROLES.map(role => <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={draft.departments}
+                        disabled={draft.role !== 'department_head'}
+                        placeholder={draft.role === 'department_head' ? 'Ventas, Almacén' : 'Todos'}
+                        onChange={(e) => updateDraft(profile.uid, { departments: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" disabled={savingUid === profile.uid} onClick={() => handleSave(profile)}>
+                        {savingUid === profile.uid ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                        Guardar
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { File as FileIcon, Loader2, X } from 'lucide-react';
+import { ReportPeriod } from '@/lib/period';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+
+export interface SelectedWorkbook {
+  file: File;
+  sheetNames: string[];
+  // Report range found in each sheet's header, read once when the file was added.
+  periods: Record<string, ReportPeriod | null>;
+  selectedSheets: string[];
+  // True while the AI is still choosing which sheet to preselect.
+  isSuggesting: boolean;
+}
+
+export function getWorkbookKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+export default function WorkbookSourceList({ workbooks, onChange }: { workbooks: SelectedWorkbook[], onChange: (workbooks: SelectedWorkbook[]) => void }) {
+  const toggleSheet = (index: number, sheetName: string, checked: boolean) => {
+    onChange(workbooks.map((w, i) => {
+      if (i !== index) return w;
+      const selectedSheets = checked
+        ? w.sheetNames.filter(name => name === sheetName || w.selectedSheets.includes(name))
+        : w.selectedSheets.filter(name => name !== sheetName);
+      return { ...w, selectedSheets };
+    }));
+  };
+
+  const removeWorkbook = (index: number) => {
+    onChange(workbooks.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {workbooks.map((workbook, index) => (
+        <div key={getWorkbookKey(workbook.file)} className="bg-secondary p-3 rounded-md border border-border space-y-2">
+          <div className="flex items-center gap-3">
+            <FileIcon className="h-6 w-6 text-primary shrink-0" />
+            <div className="text-sm flex-grow min-w-0">
+              <p className="font-medium text-foreground truncate">{workbook.file.name}</p>
+              <p className="text-muted-foreground">{(workbook.file.size / 1024).toFixed(2)} KB · {workbook.sheetNames.length} hoja(s)</p>
+            </div>
+            <Button type="button" size="icon" variant="ghost" onClick={() => removeWorkbook(index)} aria-label={`Quitar ${workbook.file.name}`}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          {workbook.isSuggesting ? (
+            <div className="flex items-center text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin mr-2" />La IA está eligiendo la hoja de asistencia...</div>
+          ) : (
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {workbook.sheetNames.map(sheetName => {
+                const id = `${getWorkbookKey(workbook.file)}-${sheetName}`;
+                return (
+                  <div key={sheetName} className="flex items-center gap-2">
+                    <Checkbox
+                      id={id}
+                      checked={workbook.selectedSheets.includes(sheetName)}
+                      onCheckedChange={(checked) => toggleSheet(index, sheetName, checked === true)}
+                    />
+                    <Label htmlFor={id} className="font-normal">{sheetName}</Label>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import * as React from 'react';
+import { User, onAuthStateChanged, signInWithEmailAndPassword, signOut as firebaseSignOut } from 'firebase/auth';
+import { getFirebaseAuth, isFirebaseConfigured } from '@/lib/firebase';
+import { UserProfile } from '@/lib/roles';
+import { ensureUserProfile } from '@/lib/user-profiles';
+
+interface AuthState {
+  user: User | null;
+  profile: UserProfile | null;
+  // True until the first auth state (and the profile of a signed-in user) is known.
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  // Re-reads the profile, e.g. after an admin changed the current user's role.
+  refreshProfile: () => Promise<void>;
+}
+
+const AuthContext = React.createContext<AuthState | null>(null);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = React.useState<User | null>(null);
+  const [profile, setProfile] = React.useState<UserProfile | null>(null);
+  const [loading, setLoading] = React.useState(isFirebaseConfigured());
+
+  React.useEffect(() => {
+    if (!isFirebaseConfigured()) return;
+
+    return onAuthStateChanged(getFirebaseAuth(), async (nextUser) => {
+      setLoading(true);
+      setUser(nextUser);
+      try {
+        setProfile(nextUser ? await ensureUserProfile(nextUser) : null);
+      } catch (error) {
+        console.error('No se pudo cargar el perfil del usuario:', error);
+        setProfile(null);
+      } finally {
+        setLoading(false);
+      }
+    });
+  }, []);
+
+  const value = React.useMemo<AuthState>(() => ({
+    user,
+    profile,
+    loading,
+    signIn: async (email, password) => {
+      await signInWithEmailAndPassword(getFirebaseAuth(), email, password);
+    },
+    signOut: () => firebaseSignOut(getFirebaseAuth()),
+    refreshProfile: async () => {
+      if (user) setProfile(await ensureUserProfile(user));
+    },
+  }), [user, profile, loading]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthState {
+  const context = React.useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider.');
+  }
+  return context;
+}
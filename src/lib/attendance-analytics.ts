@@ -0,0 +1,126 @@
+import { AttendanceStatus, EmployeeAttendance, getRecordDepartment, isAveragedDay, summarizeByDepartment } from '@/lib/attendance';
+import { parseIsoDate } from '@/lib/period';
+import { WEEKDAYS, WEEKDAY_LABELS } from '@/lib/schedule-policy';
+
+// Aggregates behind the analytics dashboard, computed from the processed records.
+
+export interface DepartmentCompliance {
+  department: string;
+  // Share of evaluated days that met the required hours, 0-100.
+  complianceRate: number;
+  compliantDays: number;
+  nonCompliantDays: number;
+}
+
+export interface WeekdayHours {
+  // Label of the weekday; entries come Monday first, as in WEEKDAYS.
+  weekday: string;
+  averageHours: number;
+  // Worked days the average is taken over.
+  days: number;
+}
+
+export interface DepartmentGaps {
+  department: string;
+  missing: number;
+  incomplete: number;
+}
+
+export interface DailyAttendance {
+  date: string;
+  // Employees expected that day: the date is a working day for them.
+  expected: number;
+  // Expected employees with at least one punch.
+  present: number;
+  missing: number;
+}
+
+export interface EmployeeNonCompliance {
+  id: string;
+  name: string;
+  department: string;
+  nonCompliantDays: number;
+  compliantDays: number;
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
+
+// Departments with evaluated days, sorted by compliance from best to worst.
+export function getComplianceByDepartment(records: EmployeeAttendance[]): DepartmentCompliance[] {
+  return summarizeByDepartment(records)
+    .slice(0, -1)
+    .filter(d => d.compliantDays + d.nonCompliantDays > 0)
+    .map(d => ({
+      department: d.department,
+      complianceRate: round(d.complianceRate * 100),
+      compliantDays: d.compliantDays,
+      nonCompliantDays: d.nonCompliantDays,
+    }))
+    .sort((a, b) => b.complianceRate - a.complianceRate || a.department.localeCompare(b.department));
+}
+
+// Average worked hours per weekday over the days that count for the average (no holidays, rest or justified days).
+export function getAverageHoursByWeekday(records: EmployeeAttendance[]): WeekdayHours[] {
+  // Indexed by Date.getDay(), Sunday first.
+  const totals = Array.from({ length: 7 }, () => ({ hours: 0, days: 0 }));
+  for (const day of records.flatMap(r => r.days)) {
+    const date = parseIsoDate(day.date);
+    if (!date || !isAveragedDay(day)) continue;
+    totals[date.getDay()].hours += day.hours!;
+    totals[date.getDay()].days++;
+  }
+  return WEEKDAYS.map(weekday => ({
+    weekday: WEEKDAY_LABELS[weekday],
+    averageHours: totals[weekday].days > 0 ? round(totals[weekday].hours / totals[weekday].days) : 0,
+    days: totals[weekday].days,
+  }));
+}
+
+// Days without punches and days with an unpaired punch per department, departments with the most first.
+export function getGapsByDepartment(records: EmployeeAttendance[]): DepartmentGaps[] {
+  const gaps = new Map<string, DepartmentGaps>();
+  for (const record of records) {
+    const department = getRecordDepartment(record);
+    const entry = gaps.get(department) ?? { department, missing: 0, incomplete: 0 };
+    for (const day of record.days) {
+      if (day.status === AttendanceStatus.Missing) entry.missing++;
+      if (day.status === AttendanceStatus.Incomplete) entry.incomplete++;
+    }
+    gaps.set(department, entry);
+  }
+  return Array.from(gaps.values())
+    .filter(g => g.missing + g.incomplete > 0)
+    .sort((a, b) => b.missing + b.incomplete - (a.missing + a.incomplete) || a.department.localeCompare(b.department));
+}
+
+// One entry per date of the period, in order.
+export function getDailyAttendance(records: EmployeeAttendance[]): DailyAttendance[] {
+  const byDate = new Map<string, DailyAttendance>();
+  for (const day of records.flatMap(r => r.days)) {
+    const entry = byDate.get(day.date) ?? { date: day.date, expected: 0, present: 0, missing: 0 };
+    if (!day.nonWorking) {
+      entry.expected++;
+      if (day.punches.length > 0) entry.present++;
+      if (day.status === AttendanceStatus.Missing) entry.missing++;
+    }
+    byDate.set(day.date, entry);
+  }
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// The `limit` employees with the most non-compliant days; employees without any are left out.
+export function getTopNonCompliant(records: EmployeeAttendance[], limit: number): EmployeeNonCompliance[] {
+  return records
+    .filter(r => r.summary.nonCompliantDays > 0)
+    .map(r => ({
+      id: r.employee.id,
+      name: r.employee.name,
+      department: getRecordDepartment(r),
+      nonCompliantDays: r.summary.nonCompliantDays,
+      compliantDays: r.summary.compliantDays,
+    }))
+    .sort((a, b) => b.nonCompliantDays - a.nonCompliantDays || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
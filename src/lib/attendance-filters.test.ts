@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EmployeeAttendance, EmployeeInfo, evaluateDay, summarizeDays } from '@/lib/attendance';
+import { EMPTY_TABLE_FILTERS, TableFilters, filterRecords, nextSort, sortRecords } from '@/lib/attendance-filters';
+import { buildAttendanceColumns } from '@/lib/attendance-table';
+import { pairPunches, parsePunches } from '@/lib/punches';
+import { DEFAULT_SCHEDULE_POLICY } from '@/lib/schedule-policy';
+
+const policy = DEFAULT_SCHEDULE_POLICY;
+
+function buildRecord(employee: EmployeeInfo, cells: string[]): EmployeeAttendance {
+  const days = cells.map((cell, i) => evaluateDay(`2025-07-0${i + 7}`, cell, pairPunches(parsePunches(cell)), policy, employee.department));
+  return { employee, days, summary: summarizeDays(days, policy), sources: [{ fileName: 'julio.xlsx', sheetName: 'Reporte' }] };
+}
+
+const ana = buildRecord({ id: '7', name: 'Ana López', department: 'Sistemas' }, ['08:00 16:00', '08:00 16:00']);
+const jose = buildRecord({ id: '12', name: 'José Ramírez', department: 'Almacén' }, ['08:00 12:00', '08:00']);
+const luis = buildRecord({ id: '9', name: 'Luis Pérez', department: '' }, ['', '08:00 16:00']);
+const records = [ana, jose, luis];
+const columns = buildAttendanceColumns(records);
+
+function filter(filters: Partial<TableFilters>): string[] {
+  return filterRecords(records, columns, { ...EMPTY_TABLE_FILTERS, ...filters }).map(r => r.employee.id);
+}
+
+describe('filterRecords', () => {
+  it('keeps every record without filters', () => {
+    assert.deepEqual(filter({}), ['7', '12', '9']);
+  });
+
+  it('searches the ID and the name ignoring case and accents', () => {
+    assert.deepEqual(filter({ search: 'jose' }), ['12']);
+    assert.deepEqual(filter({ search: ' LOPEZ' }), ['7']);
+    assert.deepEqual(filter({ search: '9' }), ['9']);
+  });
+
+  it('keeps the selected departments, employees without one included', () => {
+    assert.deepEqual(filter({ departments: ['Almacén', 'Sin departamento'] }), ['12', '9']);
+  });
+
+  it('filters by the status of the days', () => {
+    assert.deepEqual(filter({ status: 'non-compliant' }), ['12', '9']);
+    assert.deepEqual(filter({ status: 'incomplete' }), ['12']);
+    assert.deepEqual(filter({ status: 'missing' }), ['9']);
+    assert.deepEqual(filter({ status: 'justified' }), []);
+  });
+
+  it('compares a numeric column', () => {
+    assert.deepEqual(filter({ condition: { columnId: 'compliantDays', operator: '>=', value: 1 } }), ['7', '9']);
+    assert.deepEqual(filter({ condition: { columnId: 'compliantDays', operator: '=', value: 2 } }), ['7']);
+  });
+
+  it('ignores a condition on a column that is not in the table', () => {
+    assert.deepEqual(filter({ condition: { columnId: 'lateArrivals', operator: '>', value: 0 } }), ['7', '12', '9']);
+  });
+
+  it('combines every active filter', () => {
+    assert.deepEqual(filter({ search: 'l', departments: ['Sistemas'], condition: { columnId: 'compliantDays', operator: '>', value: 0 } }), ['7']);
+  });
+});
+
+describe('sortRecords', () => {
+  const ids = (sorted: EmployeeAttendance[]) => sorted.map(r => r.employee.id);
+
+  it('sorts numbers inside text naturally', () => {
+    assert.deepEqual(ids(sortRecords(records, columns, { columnId: 'id', direction: 'asc' })), ['7', '9', '12']);
+    assert.deepEqual(ids(sortRecords(records, columns, { columnId: 'id', direction: 'desc' })), ['12', '9', '7']);
+  });
+
+  it('sorts text ignoring accents', () => {
+    assert.deepEqual(ids(sortRecords(records, columns, { columnId: 'name', direction: 'asc' })), ['7', '12', '9']);
+  });
+
+  it('keeps empty cells last in both directions', () => {
+    assert.deepEqual(ids(sortRecords(records, columns, { columnId: 'department', direction: 'asc' })), ['12', '7', '9']);
+    assert.deepEqual(ids(sortRecords(records, columns, { columnId: 'department', direction: 'desc' })), ['7', '12', '9']);
+  });
+
+  it('sorts numeric columns by value', () => {
+    assert.deepEqual(ids(sortRecords(records, columns, { columnId: 'compliantDays', direction: 'desc' })), ['7', '9', '12']);
+  });
+
+  it('keeps the order without a sort or for unknown columns', () => {
+    assert.equal(sortRecords(records, columns, null), records);
+    assert.equal(sortRecords(records, columns, { columnId: 'missing', direction: 'asc' }), records);
+  });
+});
+
+describe('nextSort', () => {
+  it('cycles ascending, descending and unsorted', () => {
+    const asc = nextSort(null, 'name');
+    const desc = nextSort(asc, 'name');
+
+    assert.deepEqual(asc, { columnId: 'name', direction: 'asc' });
+    assert.deepEqual(desc, { columnId: 'name', direction: 'desc' });
+    assert.equal(nextSort(desc, 'name'), null);
+    assert.deepEqual(nextSort(desc, 'id'), { columnId: 'id', direction: 'asc' });
+  });
+});
@@ -0,0 +1,140 @@
+import { AttendanceStatus, EmployeeAttendance, getRecordDepartment } from '@/lib/attendance';
+import { AttendanceColumn, CellValue } from '@/lib/attendance-table';
+
+// Filtering and sorting of the records shown in the results table; the exporters can take the same selection.
+
+export type StatusFilter = 'all' | 'non-compliant' | 'incomplete' | 'missing' | 'justified' | 'late';
+
+export const STATUS_FILTERS: StatusFilter[] = ['all', 'non-compliant', 'incomplete', 'missing', 'justified', 'late'];
+
+export const STATUS_FILTER_LABELS: Record<StatusFilter, string> = {
+  'all': 'Todos los estados',
+  'non-compliant': 'Con días incumplidos',
+  'incomplete': 'Con registros incompletos',
+  'missing': 'Con días sin registro',
+  'justified': 'Con días justificados',
+  'late': 'Con retardos',
+};
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export const COMPARISON_OPERATORS: ComparisonOperator[] = ['>', '>=', '<', '<=', '='];
+
+// Keeps records whose value in a numeric column compares to `value`, e.g. Días Incumplidos > 2.
+export interface ColumnCondition {
+  columnId: string;
+  operator: ComparisonOperator;
+  value: number;
+}
+
+export interface TableFilters {
+  // Matched against the employee ID and name, ignoring case and accents.
+  search: string;
+  // Departments to keep; empty keeps every department.
+  departments: string[];
+  status: StatusFilter;
+  condition: ColumnCondition | null;
+}
+
+export const EMPTY_TABLE_FILTERS: TableFilters = { search: '', departments: [], status: 'all', condition: null };
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TableSort {
+  columnId: string;
+  direction: SortDirection;
+}
+
+export function hasActiveFilters(filters: TableFilters): boolean {
+  return filters.search.trim() !== '' || filters.departments.length > 0 || filters.status !== 'all' || filters.condition !== null;
+}
+
+function normalizeText(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+function matchesStatus(record: EmployeeAttendance, status: StatusFilter): boolean {
+  const hasDay = (dayStatus: AttendanceStatus) => record.days.some(d => d.status === dayStatus);
+  switch (status) {
+    case 'all':
+      return true;
+    case 'non-compliant':
+      return record.summary.nonCompliantDays > 0;
+    case 'incomplete':
+      return hasDay(AttendanceStatus.Incomplete);
+    case 'missing':
+      return hasDay(AttendanceStatus.Missing);
+    case 'justified':
+      return hasDay(AttendanceStatus.Justified);
+    case 'late':
+      // Summaries of older saved runs have no lateArrivals.
+      return (record.summary.lateArrivals ?? 0) > 0;
+  }
+}
+
+function compareNumber(a: number, operator: ComparisonOperator, b: number): boolean {
+  switch (operator) {
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '=':
+      return a === b;
+  }
+}
+
+/**
+ * Records matching every active filter, in their original order. A condition on a column that is not in `columns`
+ * (e.g. after loading a run without that column) is ignored.
+ */
+export function filterRecords(records: EmployeeAttendance[], columns: AttendanceColumn[], filters: TableFilters): EmployeeAttendance[] {
+  const search = normalizeText(filters.search);
+  const departments = new Set(filters.departments);
+  const conditionColumn = filters.condition ? columns.find(c => c.id === filters.condition!.columnId) : undefined;
+
+  return records.filter(record => {
+    if (search && !normalizeText(`${record.employee.id} ${record.employee.name}`).includes(search)) return false;
+    if (departments.size > 0 && !departments.has(getRecordDepartment(record))) return false;
+    if (!matchesStatus(record, filters.status)) return false;
+    if (conditionColumn && filters.condition) {
+      const value = conditionColumn.getValue(record);
+      if (typeof value !== 'number' || !compareNumber(value, filters.condition.operator, filters.condition.value)) return false;
+    }
+    return true;
+  });
+}
+
+const collator = new Intl.Collator('es', { numeric: true, sensitivity: 'base' });
+
+// Numbers sort before text; empty cells are kept last by sortRecords.
+function compareCells(a: CellValue, b: CellValue): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return collator.compare(a ?? '', b ?? '');
+}
+
+export function sortRecords(records: EmployeeAttendance[], columns: AttendanceColumn[], sort: TableSort | null): EmployeeAttendance[] {
+  const column = sort ? columns.find(c => c.id === sort.columnId) : undefined;
+  if (!sort || !column) return records;
+
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  const isEmpty = (value: CellValue) => value === null || value === '';
+  return records
+    .map(record => ({ record, value: column.getValue(record) }))
+    .sort((a, b) => {
+      if (isEmpty(a.value) || isEmpty(b.value)) return Number(isEmpty(a.value)) - Number(isEmpty(b.value));
+      return compareCells(a.value, b.value) * sign;
+    })
+    .map(({ record }) => record);
+}
+
+// Header clicks cycle ascending, descending and unsorted.
+export function nextSort(current: TableSort | null, columnId: string): TableSort | null {
+  if (!current || current.columnId !== columnId) return { columnId, direction: 'asc' };
+  return current.direction === 'asc' ? { columnId, direction: 'desc' } : null;
+}
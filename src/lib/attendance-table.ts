@@ -0,0 +1,265 @@
+import { AttendanceSource, AttendanceStatus, DayAttendance, EmployeeAttendance, Reconciliation, ReconciliationStatus } from '@/lib/attendance';
+import { JUSTIFICATION_LABELS, JUSTIFICATION_TYPES, JustificationType } from '@/lib/justifications';
+import { Punch, minutesToHours, parsePunches } from '@/lib/punches';
+
+// Flattens EmployeeAttendance records into the table shown in the UI and written by the exporters.
+
+export type CellValue = string | number | null;
+
+// Visual treatment of a cell; the HTML exporter uses these names as CSS classes.
+export type CellTone =
+  | 'no-registro'
+  | 'registro-incompleto'
+  | 'horas-insuficientes'
+  | 'horas-normales'
+  | 'dias-cumplidos'
+  | 'dias-incumplidos'
+  | 'directorio-alerta'
+  | 'dia-no-laborable'
+  | 'justificado'
+  | 'dias-justificados'
+  | 'retardo'
+  | 'retardos';
+
+export type ColumnKind = 'employee' | 'punches' | 'hours' | 'break' | 'overtime' | 'summary';
+
+export interface AttendanceColumn {
+  id: string;
+  header: string;
+  kind: ColumnKind;
+  // ISO date of per-day columns.
+  date?: string;
+  getValue: (record: EmployeeAttendance) => CellValue;
+  getTone: (record: EmployeeAttendance) => CellTone | null;
+}
+
+export function formatSource(source: AttendanceSource): string {
+  return `${source.fileName} › ${source.sheetName}`;
+}
+
+// Rounded punches show the clocked time followed by the rounded one, e.g. "08:07 → 08:00". The PDF passes "->" as
+// `arrow`, since its standard fonts have no arrow.
+export function formatPunches(punches: Punch[], arrow = '→'): string {
+  return punches.map(p => {
+    const time = p.roundedTime ? `${p.time} ${arrow} ${p.roundedTime}` : p.time;
+    return p.nextDay ? `${time} (+1)` : time;
+  }).join('\n');
+}
+
+const CORRECTION_LABELS: Record<Reconciliation['corrections'][number]['field'], string> = {
+  name: 'nombre',
+  department: 'departamento',
+};
+
+export function formatReconciliation(reconciliation: Reconciliation): string {
+  switch (reconciliation.status) {
+    case ReconciliationStatus.Missing:
+      return 'Sin registros en la hoja';
+    case ReconciliationStatus.Unknown:
+      return 'ID no está en el directorio';
+    case ReconciliationStatus.Matched:
+      return reconciliation.corrections.length > 0
+        ? `Corregido: ${reconciliation.corrections.map(c => `${CORRECTION_LABELS[c.field]} (${c.from || '—'} → ${c.to})`).join(', ')}`
+        : '';
+  }
+}
+
+export function formatJustification(justification: { type: JustificationType }): string {
+  return JUSTIFICATION_LABELS[justification.type].toUpperCase();
+}
+
+function getPunchesText(day: DayAttendance): string {
+  if (day.punches.length > 0) return formatPunches(day.punches);
+  // Keep unreadable cell text visible; a cell whose punches went to the previous day's shift stays empty.
+  return parsePunches(day.rawValue).length > 0 ? '' : day.rawValue;
+}
+
+function getStatusTone(status: AttendanceStatus): CellTone {
+  switch (status) {
+    case AttendanceStatus.Missing:
+      return 'no-registro';
+    case AttendanceStatus.Incomplete:
+      return 'registro-incompleto';
+    case AttendanceStatus.Insufficient:
+      return 'horas-insuficientes';
+    case AttendanceStatus.Complete:
+      return 'horas-normales';
+    case AttendanceStatus.NonWorking:
+      return 'dia-no-laborable';
+    case AttendanceStatus.Justified:
+      return 'justificado';
+  }
+}
+
+// Punches of a day with a late arrival or an early departure are highlighted.
+function getShiftTone(day: DayAttendance): CellTone | null {
+  return day.lateMinutes || day.earlyLeaveMinutes ? 'retardo' : null;
+}
+
+function findDay(record: EmployeeAttendance, date: string): DayAttendance | undefined {
+  return record.days.find(d => d.date === date);
+}
+
+function employeeColumn(id: string, header: string, getValue: (record: EmployeeAttendance) => CellValue): AttendanceColumn {
+  return { id, header, kind: 'employee', getValue, getTone: () => null };
+}
+
+export function buildAttendanceColumns(records: EmployeeAttendance[]): AttendanceColumn[] {
+  const dates = Array.from(new Set(records.flatMap(r => r.days.map(d => d.date)))).sort();
+  // Overtime columns only appear when someone worked overtime; summaries of older saved runs lack the fields.
+  const hasOvertime = records.some(r => r.summary.overtimeHours > 0);
+
+  const dayColumns = dates.flatMap((date): AttendanceColumn[] => [
+    {
+      id: date,
+      header: date,
+      kind: 'punches',
+      date,
+      getValue: (record) => {
+        const day = findDay(record, date);
+        return day ? getPunchesText(day) : null;
+      },
+      getTone: (record) => {
+        const day = findDay(record, date);
+        return day ? getShiftTone(day) : null;
+      },
+    },
+    {
+      id: `Horas-${date}`,
+      header: `Horas-${date}`,
+      kind: 'hours',
+      date,
+      getValue: (record) => {
+        const day = findDay(record, date);
+        if (!day) return null;
+        if (day.status === AttendanceStatus.Justified && day.justification) return formatJustification(day.justification);
+        if (day.hours !== null) return day.hours;
+        return day.status === AttendanceStatus.NonWorking && day.nonWorking ? day.nonWorking : day.status;
+      },
+      getTone: (record) => {
+        const day = findDay(record, date);
+        return day ? getStatusTone(day.status) : null;
+      },
+    },
+    {
+      id: `Descanso-${date}`,
+      header: `Descanso-${date}`,
+      kind: 'break',
+      date,
+      getValue: (record) => findDay(record, date)?.breakHours ?? null,
+      getTone: () => null,
+    },
+    ...(hasOvertime
+      ? [{
+          id: `Extra-${date}`,
+          header: `Extra-${date}`,
+          kind: 'overtime' as const,
+          date,
+          getValue: (record: EmployeeAttendance) => {
+            const minutes = findDay(record, date)?.overtimeMinutes;
+            return minutes ? minutesToHours(minutes) : null;
+          },
+          getTone: () => null,
+        }]
+      : []),
+  ]);
+
+  // Only batch runs need to say where each employee came from.
+  const sourceLabels = new Set(records.flatMap(r => r.sources.map(formatSource)));
+  const sourceColumns = sourceLabels.size > 1
+    ? [employeeColumn('sources', 'Origen', r => r.sources.map(formatSource).join('; '))]
+    : [];
+
+  // One count per justification type used in the run, e.g. "Vacaciones (días)".
+  const justifiedType = (day: DayAttendance) => (day.status === AttendanceStatus.Justified ? day.justification?.type : undefined);
+  const usedTypes = new Set(records.flatMap(r => r.days.map(justifiedType)));
+  const justificationColumns = JUSTIFICATION_TYPES.filter(type => usedTypes.has(type)).map((type): AttendanceColumn => ({
+    id: `justified-${type}`,
+    header: `${JUSTIFICATION_LABELS[type]} (días)`,
+    kind: 'summary',
+    getValue: r => r.days.filter(d => justifiedType(d) === type).length,
+    getTone: () => 'dias-justificados',
+  }));
+
+  // Shift columns only appear when the schedule had start or end times; days of older saved runs lack the fields.
+  const shiftDays = records.flatMap(r => r.days);
+  const lateColumns: AttendanceColumn[] = shiftDays.some(d => d.lateMinutes !== null && d.lateMinutes !== undefined)
+    ? [
+        { id: 'lateArrivals', header: 'Retardos', kind: 'summary', getValue: r => r.summary.lateArrivals ?? 0, getTone: () => 'retardos' },
+        { id: 'lateMinutes', header: 'Minutos de Retardo', kind: 'summary', getValue: r => r.summary.lateMinutes ?? 0, getTone: () => null },
+      ]
+    : [];
+  const earlyColumns: AttendanceColumn[] = shiftDays.some(d => d.earlyLeaveMinutes !== null && d.earlyLeaveMinutes !== undefined)
+    ? [
+        { id: 'earlyDepartures', header: 'Salidas Anticipadas', kind: 'summary', getValue: r => r.summary.earlyDepartures ?? 0, getTone: () => 'retardos' },
+        { id: 'earlyLeaveMinutes', header: 'Minutos de Salida Anticipada', kind: 'summary', getValue: r => r.summary.earlyLeaveMinutes ?? 0, getTone: () => null },
+      ]
+    : [];
+  const tardinessColumns: AttendanceColumn[] = records.some(r => r.summary.tardinessAbsences > 0)
+    ? [{ id: 'tardinessAbsences', header: 'Faltas por Retardos', kind: 'summary', getValue: r => r.summary.tardinessAbsences ?? 0, getTone: () => 'dias-incumplidos' }]
+    : [];
+  // Worked hours as clocked, so auditors can compare them with the rounded hours.
+  const roundingColumns: AttendanceColumn[] = records.some(r => r.days.some(d => d.rawHours !== undefined))
+    ? [{
+        id: 'rawTotalHours',
+        header: 'Horas sin Redondeo',
+        kind: 'summary',
+        getValue: r => parseFloat(r.days.reduce((sum, d) => sum + (d.rawHours ?? d.hours ?? 0), 0).toFixed(2)),
+        getTone: () => null,
+      }]
+    : [];
+  const weeks = Array.from(new Set(records.flatMap(r => (r.summary.overtimeWeeks ?? [])
+    .filter(w => w.dailyOvertimeHours + w.weeklyOvertimeHours > 0)
+    .map(w => w.week)))).sort();
+  const overtimeColumns: AttendanceColumn[] = hasOvertime
+    ? [
+        { id: 'overtimeHours', header: 'Horas Extra', kind: 'summary', getValue: r => r.summary.overtimeHours, getTone: () => null },
+        { id: 'doubleOvertimeHours', header: 'Horas Extra Dobles', kind: 'summary', getValue: r => r.summary.doubleOvertimeHours ?? null, getTone: () => null },
+        { id: 'tripleOvertimeHours', header: 'Horas Extra Triples', kind: 'summary', getValue: r => r.summary.tripleOvertimeHours ?? null, getTone: () => null },
+        // Daily plus weekly overtime of each ISO week, e.g. "Horas Extra 2025-W27".
+        ...weeks.map((week): AttendanceColumn => ({
+          id: `overtime-${week}`,
+          header: `Horas Extra ${week}`,
+          kind: 'summary',
+          getValue: r => {
+            const entry = r.summary.overtimeWeeks?.find(w => w.week === week);
+            return entry ? parseFloat((entry.dailyOvertimeHours + entry.weeklyOvertimeHours).toFixed(2)) : null;
+          },
+          getTone: () => null,
+        })),
+      ]
+    : [];
+
+  // Directory columns only appear when the run was reconciled against the employee directory.
+  const directoryColumns: AttendanceColumn[] = records.some(r => r.reconciliation)
+    ? [
+        employeeColumn('position', 'Puesto', r => r.employee.position ?? ''),
+        employeeColumn('schedule', 'Horario', r => r.employee.schedule ?? ''),
+        {
+          id: 'reconciliation',
+          header: 'Directorio',
+          kind: 'employee',
+          getValue: r => (r.reconciliation ? formatReconciliation(r.reconciliation) : ''),
+          getTone: r => (r.reconciliation && formatReconciliation(r.reconciliation) ? 'directorio-alerta' : null),
+        },
+      ]
+    : [];
+
+  return [
+    employeeColumn('id', 'ID', r => r.employee.id),
+    employeeColumn('name', 'Nombre', r => r.employee.name),
+    employeeColumn('department', 'Departamento', r => r.employee.department),
+    ...directoryColumns,
+    ...sourceColumns,
+    ...dayColumns,
+    ...roundingColumns,
+    { id: 'averageHours', header: 'Horas/Día', kind: 'summary', getValue: r => r.summary.averageHours, getTone: () => null },
+    { id: 'compliantDays', header: 'Días Cumplidos', kind: 'summary', getValue: r => r.summary.compliantDays, getTone: () => 'dias-cumplidos' },
+    { id: 'nonCompliantDays', header: 'Días Incumplidos', kind: 'summary', getValue: r => r.summary.nonCompliantDays, getTone: () => 'dias-incumplidos' },
+    ...justificationColumns,
+    ...lateColumns,
+    ...earlyColumns,
+    ...tardinessColumns,
+    ...overtimeColumns,
+  ];
+}
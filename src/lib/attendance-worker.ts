@@ -0,0 +1,141 @@
+import {
+  BatchProgress,
+  BatchProgressListener,
+  BatchResult,
+  EmployeeReferences,
+  ExtractionConfig,
+  WorkbookInfo,
+  WorkbookSource,
+  inspectWorkbook,
+  processBatch,
+} from '@/lib/excel-processor';
+
+// Runs processBatch and the workbook inspection in Web Workers so reading large workbooks does not freeze the page.
+
+export type WorkerRequest =
+  | { type: 'batch', sources: WorkbookSource[], config: ExtractionConfig, references: EmployeeReferences }
+  | { type: 'inspect', file: File };
+
+export type WorkerResponse =
+  | { type: 'progress', progress: BatchProgress }
+  | { type: 'result', result: BatchResult }
+  | { type: 'inspection', info: WorkbookInfo }
+  | { type: 'error', message: string };
+
+export interface BatchJob {
+  promise: Promise<BatchResult>;
+  // Stops the job; `promise` rejects with a BatchCancelledError. Does nothing once the job has ended.
+  cancel: () => void;
+}
+
+export class BatchCancelledError extends Error {
+  constructor() {
+    super('The batch was cancelled.');
+    this.name = 'BatchCancelledError';
+  }
+}
+
+/**
+ * Starts processBatch in a dedicated worker. Where workers are unavailable the batch runs on the calling thread;
+ * cancelling it then only discards its result.
+ */
+export function startBatchJob(
+  sources: WorkbookSource[],
+  config: ExtractionConfig,
+  references: EmployeeReferences = {},
+  onProgress?: BatchProgressListener,
+): BatchJob {
+  let settled = false;
+  let rejectJob: (error: Error) => void = () => {};
+  let worker: Worker | null = null;
+
+  const finish = () => {
+    settled = true;
+    worker?.terminate();
+  };
+
+  const promise = new Promise<BatchResult>((resolve, reject) => {
+    rejectJob = reject;
+
+    if (typeof Worker === 'undefined') {
+      processBatch(sources, config, references, progress => {
+        if (!settled) onProgress?.(progress);
+      }).then(
+        result => {
+          if (settled) return;
+          finish();
+          resolve(result);
+        },
+        error => {
+          if (settled) return;
+          finish();
+          reject(error);
+        },
+      );
+      return;
+    }
+
+    worker = new Worker(new URL('./attendance.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (settled) return;
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+      } else if (response.type === 'result') {
+        finish();
+        resolve(response.result);
+      } else if (response.type === 'error') {
+        finish();
+        reject(new Error(response.message));
+      }
+    };
+    worker.onerror = (event) => {
+      if (settled) return;
+      finish();
+      reject(new Error(event.message || 'The worker processing the files failed.'));
+    };
+    const request: WorkerRequest = { type: 'batch', sources, config, references };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      finish();
+      rejectJob(new BatchCancelledError());
+    },
+  };
+}
+
+// inspectWorkbook in a dedicated worker, or on the calling thread where workers are unavailable.
+export function inspectWorkbookInWorker(file: File): Promise<WorkbookInfo> {
+  if (typeof Worker === 'undefined') return inspectWorkbook(file);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./attendance.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'inspection') {
+        worker.terminate();
+        resolve(response.info);
+      } else if (response.type === 'error') {
+        worker.terminate();
+        reject(new Error(response.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The worker reading the file failed.'));
+    };
+    const request: WorkerRequest = { type: 'inspect', file };
+    worker.postMessage(request);
+  });
+}
+
+// Share of the batch done, 0-100: whole sheets plus the scanned part of the current one.
+export function getBatchProgressPercent(progress: BatchProgress): number {
+  if (progress.sheetsTotal === 0) return 0;
+  const current = progress.currentRowsTotal > 0 ? progress.currentRowsScanned / progress.currentRowsTotal : 0;
+  return Math.min(100, Math.round(((progress.sheetsDone + current) / progress.sheetsTotal) * 100));
+}
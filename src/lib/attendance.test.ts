@@ -0,0 +1,166 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AttendanceStatus, EmployeeAttendance, EmployeeInfo, evaluateDay, mergeEmployeeRecords, summarizeDays } from '@/lib/attendance';
+import { DayJustification } from '@/lib/justifications';
+import { pairPunches, pairShiftPunches, parsePunches, roundDayPunches } from '@/lib/punches';
+import { DEFAULT_SCHEDULE_POLICY, SchedulePolicy } from '@/lib/schedule-policy';
+
+const policy = DEFAULT_SCHEDULE_POLICY;
+
+function evaluate(date: string, cell: string, schedulePolicy: SchedulePolicy = policy) {
+  return evaluateDay(date, cell, pairPunches(parsePunches(cell)), schedulePolicy, 'Sistemas');
+}
+
+function buildRecord(employee: EmployeeInfo, cells: Record<string, string>, sheetName: string): EmployeeAttendance {
+  const days = Object.entries(cells).map(([date, cell]) => evaluate(date, cell));
+  return { employee, days, summary: summarizeDays(days, policy), sources: [{ fileName: 'julio.xlsx', sheetName }] };
+}
+
+describe('mergeEmployeeRecords', () => {
+  it('combines the days and sources of records with the same ID', () => {
+    const first = buildRecord({ id: '7', name: 'Ana López', department: 'Sistemas' }, { '2025-07-07': '08:00 16:00' }, 'Semana 1');
+    const second = buildRecord({ id: '7', name: 'Ana López', department: 'Sistemas' }, { '2025-07-14': '08:00 16:00' }, 'Semana 2');
+
+    const [merged, ...rest] = mergeEmployeeRecords([first, second], policy);
+
+    assert.equal(rest.length, 0);
+    assert.deepEqual(merged.days.map(d => d.date), ['2025-07-07', '2025-07-14']);
+    assert.deepEqual(merged.sources.map(s => s.sheetName), ['Semana 1', 'Semana 2']);
+    assert.equal(merged.summary.totalHours, 16);
+    assert.equal(merged.summary.compliantDays, 2);
+  });
+
+  it('keeps the day with more punches when two sources cover the same date', () => {
+    const partial = buildRecord({ id: '7', name: 'Ana López', department: 'Sistemas' }, { '2025-07-07': '08:00' }, 'A');
+    const complete = buildRecord({ id: '7', name: 'Ana López', department: 'Sistemas' }, { '2025-07-07': '08:00 16:00' }, 'B');
+
+    const [merged] = mergeEmployeeRecords([partial, complete], policy);
+
+    assert.equal(merged.days.length, 1);
+    assert.equal(merged.days[0].status, AttendanceStatus.Complete);
+  });
+
+  it('matches employees without an ID by name', () => {
+    const first = buildRecord({ id: '', name: 'Ana López', department: '' }, { '2025-07-07': '08:00 16:00' }, 'A');
+    const second = buildRecord({ id: '', name: ' ana lópez ', department: 'Sistemas' }, { '2025-07-08': '08:00 16:00' }, 'B');
+
+    const [merged, ...rest] = mergeEmployeeRecords([first, second], policy);
+
+    assert.equal(rest.length, 0);
+    assert.equal(merged.employee.name, 'Ana López');
+    assert.equal(merged.employee.department, 'Sistemas');
+  });
+
+  it('keeps employees with different IDs apart', () => {
+    const ana = buildRecord({ id: '7', name: 'Ana López', department: 'Sistemas' }, { '2025-07-07': '08:00 16:00' }, 'A');
+    const luis = buildRecord({ id: '8', name: 'Luis Pérez', department: 'Sistemas' }, { '2025-07-07': '08:00 16:00' }, 'A');
+
+    assert.equal(mergeEmployeeRecords([ana, luis], policy).length, 2);
+  });
+
+  it('does not change the records passed in', () => {
+    const first = buildRecord({ id: '7', name: 'Ana López', department: 'Sistemas' }, { '2025-07-07': '08:00 16:00' }, 'A');
+    const second = buildRecord({ id: '7', name: 'Ana López', department: 'Sistemas' }, { '2025-07-08': '08:00 16:00' }, 'B');
+
+    mergeEmployeeRecords([first, second], policy);
+
+    assert.equal(first.days.length, 1);
+    assert.equal(first.sources.length, 1);
+  });
+});
+
+describe('evaluateDay late arrivals and early departures', () => {
+  const shift: SchedulePolicy = { ...policy, startTime: '08:00', endTime: '16:00', lateToleranceMinutes: 10 };
+
+  it('does not count arrivals within the tolerance as late', () => {
+    const day = evaluate('2025-07-07', '08:10 16:00', shift);
+
+    assert.equal(day.lateMinutes, 0);
+    assert.equal(day.earlyLeaveMinutes, 0);
+  });
+
+  it('measures late arrivals and early departures against the schedule', () => {
+    const day = evaluate('2025-07-07', '08:20 12:00 13:00 15:30', shift);
+
+    assert.equal(day.lateMinutes, 20);
+    assert.equal(day.earlyLeaveMinutes, 30);
+  });
+
+  it('does not measure early departures on days with an open entry', () => {
+    const day = evaluate('2025-07-07', '08:20', shift);
+
+    assert.equal(day.lateMinutes, 20);
+    assert.equal(day.earlyLeaveMinutes, null);
+  });
+
+  it('measures nothing without schedule times or punches', () => {
+    assert.equal(evaluate('2025-07-07', '09:00 16:00').lateMinutes, null);
+    assert.equal(evaluate('2025-07-07', '', shift).lateMinutes, null);
+  });
+
+  it('places the end of overnight schedules on the next day', () => {
+    const night: SchedulePolicy = { ...policy, startTime: '22:00', endTime: '06:00', lateToleranceMinutes: 0 };
+    const [dayPunches] = pairShiftPunches([parsePunches('22:15'), parsePunches('05:45')], () => true);
+
+    const day = evaluateDay('2025-07-07', '22:15', dayPunches, night, 'Sistemas');
+
+    assert.equal(day.lateMinutes, 15);
+    assert.equal(day.earlyLeaveMinutes, 15);
+  });
+
+  it('does not measure justified days', () => {
+    const justification: DayJustification = { id: 'j1', type: 'permiso', note: '', approvedBy: '' };
+    const day = evaluateDay('2025-07-07', '10:00 14:00', pairPunches(parsePunches('10:00 14:00')), shift, 'Sistemas', { justification });
+
+    assert.equal(day.status, AttendanceStatus.Justified);
+    assert.equal(day.lateMinutes, null);
+  });
+
+  it('adds them up in the summary', () => {
+    const days = [evaluate('2025-07-07', '08:20 16:00', shift), evaluate('2025-07-08', '08:30 15:45', shift), evaluate('2025-07-09', '08:00 16:00', shift)];
+
+    const summary = summarizeDays(days, shift);
+
+    assert.equal(summary.lateArrivals, 2);
+    assert.equal(summary.lateMinutes, 50);
+    assert.equal(summary.earlyDepartures, 1);
+    assert.equal(summary.earlyLeaveMinutes, 15);
+  });
+
+  it('measures from the clocked time when punches are rounded', () => {
+    const rounded: SchedulePolicy = {
+      ...shift,
+      lateToleranceMinutes: 0,
+      rounding: {
+        entry: { mode: 'up', intervalMinutes: 15, graceMinutes: 0 },
+        exit: { mode: 'down', intervalMinutes: 15, graceMinutes: 0 },
+      },
+    };
+    const dayPunches = roundDayPunches(pairPunches(parsePunches('08:10 15:55')), rounded.rounding);
+
+    const day = evaluateDay('2025-07-07', '08:10 15:55', dayPunches, rounded, 'Sistemas');
+
+    assert.equal(day.lateMinutes, 10);
+    assert.equal(day.earlyLeaveMinutes, 5);
+    assert.equal(day.hours, 7.5);
+  });
+});
+
+describe('evaluateDay justifications', () => {
+  const justification: DayJustification = { id: 'j1', type: 'vacaciones', note: 'Aprobadas', approvedBy: 'rh@example.com' };
+
+  it('marks working days not worked in full as justified', () => {
+    const day = evaluateDay('2025-07-07', '', pairPunches([]), policy, 'Sistemas', { justification });
+
+    assert.equal(day.status, AttendanceStatus.Justified);
+    assert.deepEqual(day.justification, justification);
+  });
+
+  it('keeps the justification of a day worked in full without counting it as justified', () => {
+    const day = evaluateDay('2025-07-07', '08:00 16:00', pairPunches(parsePunches('08:00 16:00')), policy, 'Sistemas', { justification });
+
+    assert.equal(day.status, AttendanceStatus.Complete);
+    assert.deepEqual(day.justification, justification);
+    assert.equal(summarizeDays([day], policy).justifiedDays, 0);
+  });
+});
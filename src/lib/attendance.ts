@@ -0,0 +1,421 @@
+import { DayPunches, Punch, PunchPair, minutesToHours } from '@/lib/punches';
+import { SchedulePolicy, getRequiredHours, meetsRequiredHours, parseTime, resolveSchedule } from '@/lib/schedule-policy';
+import { parseIsoDate } from '@/lib/period';
+import { DayJustification } from '@/lib/justifications';
+import { WeekOvertime, computeWeeklyOvertime } from '@/lib/overtime';
+import type { PunchCorrection } from '@/lib/punch-corrections';
+
+export enum AttendanceStatus {
+  Complete = 'HORAS CUMPLIDAS',
+  Insufficient = 'HORAS INSUFICIENTES',
+  Incomplete = 'REGISTRO INCOMPLETO',
+  Missing = 'NO HAY REGISTRO',
+  // Holiday or rest day without punches.
+  NonWorking = 'DÍA NO LABORABLE',
+  // Covered by a justification (vacation, sick leave...) and not worked in full.
+  Justified = 'JUSTIFICADO',
+}
+
+export const REST_DAY_LABEL = 'Día de descanso';
+
+// Workbook sheet a record was read from.
+export interface AttendanceSource {
+  fileName: string;
+  sheetName: string;
+}
+
+export interface EmployeeInfo {
+  id: string;
+  name: string;
+  department: string;
+  // Only known when the employee was found in the employee directory.
+  position?: string;
+  schedule?: string;
+}
+
+// Outcome of joining a record against the employee directory.
+export enum ReconciliationStatus {
+  Matched = 'matched',
+  // The clock ID is not in the directory; the sheet values are kept as they are.
+  Unknown = 'unknown',
+  // The directory lists the employee but no selected sheet has them.
+  Missing = 'missing',
+}
+
+export interface FieldCorrection {
+  field: 'name' | 'department';
+  // Value read from the sheet, replaced by the directory value.
+  from: string;
+  to: string;
+}
+
+export interface Reconciliation {
+  status: ReconciliationStatus;
+  corrections: FieldCorrection[];
+}
+
+export interface DayAttendance {
+  // ISO yyyy-MM-dd date the worked time is credited to.
+  date: string;
+  // Cell text as read from the sheet, before parsing.
+  rawValue: string;
+  punches: Punch[];
+  pairs: PunchPair[];
+  unpaired: Punch[];
+  // Worked hours, null when the day has no usable punches.
+  hours: number | null;
+  // Hours from the punches as clocked; only set when rounding changed the worked hours.
+  rawHours?: number;
+  breakHours: number;
+  requiredHours: number;
+  status: AttendanceStatus;
+  // Holiday name, or REST_DAY_LABEL when the schedule requires no hours that weekday. Such days never count as
+  // compliant or non-compliant, even when the employee worked.
+  nonWorking?: string;
+  // Justification covering the employee that day. It is kept whatever the status, so a recomputed day can still be
+  // justified, but only days with the Justified status count as justified.
+  justification?: DayJustification;
+  // Minutes the first punch came after the scheduled start, 0 when within the tolerance. Null when the schedule has
+  // no start time or the day was not evaluated (no punches, non-working or justified).
+  lateMinutes: number | null;
+  // Minutes the last exit came before the scheduled end; null as lateMinutes, or when the day has an open entry.
+  earlyLeaveMinutes: number | null;
+  // Minutes worked beyond the required hours; every worked minute on a non-working day. Null when hours is null.
+  overtimeMinutes: number | null;
+}
+
+export interface AttendanceSummary {
+  totalHours: number;
+  averageHours: number;
+  compliantDays: number;
+  nonCompliantDays: number;
+  // Justified days count neither as compliant nor as non-compliant.
+  justifiedDays: number;
+  // Days with lateMinutes > 0 and their total minutes.
+  lateArrivals: number;
+  lateMinutes: number;
+  // Days with earlyLeaveMinutes > 0 and their total minutes.
+  earlyDepartures: number;
+  earlyLeaveMinutes: number;
+  // Daily plus weekly overtime, split into the hours paid double and triple under the policy's overtime rules.
+  overtimeHours: number;
+  doubleOvertimeHours: number;
+  tripleOvertimeHours: number;
+  overtimeWeeks: WeekOvertime[];
+  // Absences that late arrivals add up to under the policy's lateArrivalsPerAbsence rule, counted per calendar month.
+  // They are reported on their own and do not change nonCompliantDays.
+  tardinessAbsences: number;
+}
+
+export interface EmployeeAttendance {
+  employee: EmployeeInfo;
+  days: DayAttendance[];
+  summary: AttendanceSummary;
+  sources: AttendanceSource[];
+  // Absent when the run was processed without an employee directory.
+  reconciliation?: Reconciliation;
+  // Punches changed by hand after processing, oldest first.
+  corrections?: PunchCorrection[];
+}
+
+export interface DayContext {
+  // Name of the holiday falling on the date.
+  holiday?: string;
+  // Justification covering the employee that day.
+  justification?: DayJustification;
+  // The employee's own shift from the directory, e.g. "08:00-17:00".
+  shift?: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Exits read from the next day's column are counted past midnight so they compare against overnight schedules.
+// Punches are measured by their clocked time: rounding only changes the hours paid, not lateness.
+function punchMinutes(punch: Punch): number {
+  return punch.minutes + (punch.nextDay ? MINUTES_PER_DAY : 0);
+}
+
+/**
+ * Late arrival and early departure against the scheduled start and end times. An end time at or before the start is
+ * taken to be on the next day.
+ */
+function measureShift(dayPunches: DayPunches, startTime: string | null, endTime: string | null, toleranceMinutes: number) {
+  const start = parseTime(startTime);
+  let end = parseTime(endTime);
+  if (start !== null && end !== null && end <= start) {
+    end += MINUTES_PER_DAY;
+  }
+
+  let lateMinutes: number | null = null;
+  if (start !== null && dayPunches.punches.length > 0) {
+    const late = punchMinutes(dayPunches.punches[0]) - start;
+    lateMinutes = late > toleranceMinutes ? late : 0;
+  }
+
+  let earlyLeaveMinutes: number | null = null;
+  if (end !== null && dayPunches.pairs.length > 0 && dayPunches.unpaired.length === 0) {
+    earlyLeaveMinutes = Math.max(0, end - punchMinutes(dayPunches.pairs[dayPunches.pairs.length - 1].out));
+  }
+
+  return { lateMinutes, earlyLeaveMinutes };
+}
+
+/**
+ * A justification in `context` only applies to working days that were not already worked in full; late arrivals
+ * and early departures are not measured on justified or non-working days.
+ */
+export function evaluateDay(
+  date: string,
+  rawValue: string,
+  dayPunches: DayPunches,
+  policy: SchedulePolicy,
+  department: string,
+  context: DayContext = {},
+): DayAttendance {
+  const { holiday, justification } = context;
+  const calendarDate = parseIsoDate(date)!;
+  const requiredHours = holiday ? 0 : getRequiredHours(policy, department, calendarDate);
+  const nonWorking = holiday || (requiredHours === 0 ? REST_DAY_LABEL : undefined);
+
+  let status: AttendanceStatus;
+  let hours: number | null = null;
+  let rawHours: number | undefined;
+
+  if (dayPunches.punches.length === 0) {
+    status = nonWorking ? AttendanceStatus.NonWorking : AttendanceStatus.Missing;
+  } else if (dayPunches.unpaired.length > 0) {
+    status = AttendanceStatus.Incomplete;
+  } else {
+    hours = minutesToHours(dayPunches.workedMinutes);
+    // Days paired by older code have no rawWorkedMinutes.
+    if (dayPunches.rawWorkedMinutes !== undefined && dayPunches.rawWorkedMinutes !== dayPunches.workedMinutes) {
+      rawHours = minutesToHours(dayPunches.rawWorkedMinutes);
+    }
+    status = holiday || meetsRequiredHours(policy, department, calendarDate, hours) ? AttendanceStatus.Complete : AttendanceStatus.Insufficient;
+  }
+
+  const justified = Boolean(justification) && !nonWorking && status !== AttendanceStatus.Complete;
+  if (justified) {
+    status = AttendanceStatus.Justified;
+  }
+
+  const schedule = resolveSchedule(policy, department, context.shift);
+  const shift = nonWorking || justified
+    ? { lateMinutes: null, earlyLeaveMinutes: null }
+    : measureShift(dayPunches, schedule.startTime, schedule.endTime, schedule.lateToleranceMinutes);
+  const overtimeMinutes = hours === null ? null : Math.max(0, dayPunches.workedMinutes - Math.round(requiredHours * 60));
+
+  return {
+    date,
+    rawValue,
+    punches: dayPunches.punches,
+    pairs: dayPunches.pairs,
+    unpaired: dayPunches.unpaired,
+    hours,
+    ...(rawHours !== undefined ? { rawHours } : {}),
+    breakHours: minutesToHours(dayPunches.breakMinutes),
+    requiredHours,
+    status,
+    ...(nonWorking ? { nonWorking } : {}),
+    ...(justification ? { justification } : {}),
+    ...shift,
+    overtimeMinutes,
+  };
+}
+
+// Hours worked on holidays, rest days and justified days add to the total but not to the average.
+export function isAveragedDay(day: DayAttendance): boolean {
+  return day.hours !== null && !day.nonWorking && day.status !== AttendanceStatus.Justified;
+}
+
+/**
+ * Totals over `days`. With a `policy`, late arrivals are turned into absences using its lateArrivalsPerAbsence rule
+ * and overtime follows its overtime rules; without one, the default overtime rules apply.
+ */
+export function summarizeDays(days: DayAttendance[], policy?: SchedulePolicy): AttendanceSummary {
+  let totalHours = 0;
+  let averagedHours = 0;
+  let averagedDays = 0;
+  let compliantDays = 0;
+  let nonCompliantDays = 0;
+  let justifiedDays = 0;
+  let lateMinutes = 0;
+  let earlyDepartures = 0;
+  let earlyLeaveMinutes = 0;
+  // Late arrivals per yyyy-MM month.
+  const lateArrivalsByMonth = new Map<string, number>();
+
+  days.forEach((day) => {
+    if (day.hours !== null) {
+      totalHours += day.hours;
+    }
+    // Days of older saved runs have none of the shift fields.
+    if (day.lateMinutes) {
+      const month = day.date.slice(0, 7);
+      lateArrivalsByMonth.set(month, (lateArrivalsByMonth.get(month) ?? 0) + 1);
+      lateMinutes += day.lateMinutes;
+    }
+    if (day.earlyLeaveMinutes) {
+      earlyDepartures++;
+      earlyLeaveMinutes += day.earlyLeaveMinutes;
+    }
+    if (isAveragedDay(day)) {
+      averagedHours += day.hours!;
+      averagedDays++;
+    }
+    // Non-working and justified days are not part of the compliance counts.
+    if (day.nonWorking) return;
+    if (day.status === AttendanceStatus.Justified) {
+      justifiedDays++;
+      return;
+    }
+    if (day.status === AttendanceStatus.Complete) {
+      compliantDays++;
+    } else {
+      nonCompliantDays++;
+    }
+  });
+
+  const lateArrivalsPerAbsence = policy?.lateArrivalsPerAbsence ?? 0;
+  let lateArrivals = 0;
+  let tardinessAbsences = 0;
+  lateArrivalsByMonth.forEach((count) => {
+    lateArrivals += count;
+    if (lateArrivalsPerAbsence > 0) {
+      tardinessAbsences += Math.floor(count / lateArrivalsPerAbsence);
+    }
+  });
+
+  // Policies saved before overtime rules existed have no `overtime`.
+  const overtimeWeeks = computeWeeklyOvertime(days, policy?.overtime);
+  const sumHours = (hours: (week: WeekOvertime) => number) => parseFloat(overtimeWeeks.reduce((sum, w) => sum + hours(w), 0).toFixed(2));
+
+  return {
+    totalHours: parseFloat(totalHours.toFixed(2)),
+    averageHours: averagedDays > 0 ? parseFloat((averagedHours / averagedDays).toFixed(2)) : 0,
+    compliantDays,
+    nonCompliantDays,
+    justifiedDays,
+    lateArrivals,
+    lateMinutes,
+    earlyDepartures,
+    earlyLeaveMinutes,
+    overtimeHours: sumHours(w => w.dailyOvertimeHours + w.weeklyOvertimeHours),
+    doubleOvertimeHours: sumHours(w => w.doubleHours),
+    tripleOvertimeHours: sumHours(w => w.tripleHours),
+    overtimeWeeks,
+    tardinessAbsences,
+  };
+}
+
+function employeeKey(employee: EmployeeInfo): string {
+  return employee.id ? `id:${employee.id.trim()}` : `name:${employee.name.trim().toLowerCase()}`;
+}
+
+/**
+ * Combines records of the same employee (matched by clock ID, or by name when the ID is missing) read from
+ * different sheets or files. When two sources cover the same date, the day with more punches wins. Summaries are
+ * recomputed as in summarizeDays.
+ */
+export function mergeEmployeeRecords(records: EmployeeAttendance[], policy?: SchedulePolicy): EmployeeAttendance[] {
+  const merged = new Map<string, EmployeeAttendance>();
+
+  for (const record of records) {
+    const key = employeeKey(record.employee);
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, { ...record, days: [...record.days], sources: [...record.sources] });
+      continue;
+    }
+
+    existing.employee = {
+      ...record.employee,
+      ...existing.employee,
+      id: existing.employee.id || record.employee.id,
+      name: existing.employee.name || record.employee.name,
+      department: existing.employee.department || record.employee.department,
+    };
+
+    if (existing.reconciliation && record.reconciliation) {
+      const corrections = [...existing.reconciliation.corrections];
+      for (const correction of record.reconciliation.corrections) {
+        if (!corrections.some(c => c.field === correction.field && c.from === correction.from)) {
+          corrections.push(correction);
+        }
+      }
+      existing.reconciliation = { ...existing.reconciliation, corrections };
+    }
+
+    const daysByDate = new Map(existing.days.map(d => [d.date, d]));
+    for (const day of record.days) {
+      const current = daysByDate.get(day.date);
+      if (!current || day.punches.length > current.punches.length) {
+        daysByDate.set(day.date, day);
+      }
+    }
+    existing.days = Array.from(daysByDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    existing.sources.push(...record.sources);
+  }
+
+  return Array.from(merged.values()).map(record => ({ ...record, summary: summarizeDays(record.days, policy) }));
+}
+
+export interface DepartmentSummary {
+  department: string;
+  employees: number;
+  compliantDays: number;
+  nonCompliantDays: number;
+  justifiedDays: number;
+  totalHours: number;
+  // Average over the working days with worked hours, like AttendanceSummary.averageHours.
+  averageHours: number;
+  // Share of evaluated days that met the required hours, 0-1.
+  complianceRate: number;
+}
+
+export const NO_DEPARTMENT = 'Sin departamento';
+
+export function getRecordDepartment(record: EmployeeAttendance): string {
+  return record.employee.department || NO_DEPARTMENT;
+}
+
+/**
+ * Rolls employee summaries up per department, sorted by department name. The last entry is the total over all
+ * departments, labelled 'Total'.
+ */
+export function summarizeByDepartment(records: EmployeeAttendance[]): DepartmentSummary[] {
+  const groups = new Map<string, EmployeeAttendance[]>();
+  for (const record of records) {
+    const department = getRecordDepartment(record);
+    groups.set(department, [...(groups.get(department) ?? []), record]);
+  }
+
+  const summarize = (department: string, group: EmployeeAttendance[]): DepartmentSummary => {
+    const compliantDays = group.reduce((sum, r) => sum + r.summary.compliantDays, 0);
+    const nonCompliantDays = group.reduce((sum, r) => sum + r.summary.nonCompliantDays, 0);
+    // Older saved runs have no justifiedDays.
+    const justifiedDays = group.reduce((sum, r) => sum + (r.summary.justifiedDays ?? 0), 0);
+    const totalHours = group.reduce((sum, r) => sum + r.summary.totalHours, 0);
+    const averagedDays = group.flatMap(r => r.days.filter(isAveragedDay));
+    const averagedHours = averagedDays.reduce((sum, d) => sum + d.hours!, 0);
+    const evaluatedDays = compliantDays + nonCompliantDays;
+    return {
+      department,
+      employees: group.length,
+      compliantDays,
+      nonCompliantDays,
+      justifiedDays,
+      totalHours: parseFloat(totalHours.toFixed(2)),
+      averageHours: averagedDays.length > 0 ? parseFloat((averagedHours / averagedDays.length).toFixed(2)) : 0,
+      complianceRate: evaluatedDays > 0 ? compliantDays / evaluatedDays : 0,
+    };
+  };
+
+  return [
+    ...Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([department, group]) => summarize(department, group)),
+    summarize('Total', records),
+  ];
+}
@@ -0,0 +1,24 @@
+import { inspectWorkbook, processBatch } from '@/lib/excel-processor';
+import type { WorkerRequest, WorkerResponse } from '@/lib/attendance-worker';
+
+// Runs processBatch or inspectWorkbook off the main thread. Each worker runs a single job and is terminated when it
+// ends or is cancelled.
+
+function reply(response: WorkerResponse) {
+  postMessage(response);
+}
+
+addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'inspect') {
+      reply({ type: 'inspection', info: await inspectWorkbook(request.file) });
+      return;
+    }
+    const { sources, config, references } = request;
+    const result = await processBatch(sources, config, references, progress => reply({ type: 'progress', progress }));
+    reply({ type: 'result', result });
+  } catch (error: any) {
+    reply({ type: 'error', message: error.message || 'Unknown error.' });
+  }
+});
@@ -1,30 +1,38 @@
-export function exportToCsv(data: Record<string, any>[], filename: string) {
-  if (!data || data.length === 0) {
-    return;
+import { EmployeeAttendance } from '@/lib/attendance';
+import { buildAttendanceColumns } from '@/lib/attendance-table';
+import { CORRECTION_LOG_HEADERS, buildCorrectionLog, hasCorrections } from '@/lib/punch-corrections';
+
+function formatCsvValue(value: string | number | null | undefined): string {
+  // Handle strings, numbers, and other types gracefully
+  const stringValue = (value === null || value === undefined) ? '' : String(value);
+
+  // If the value contains a comma, a quote, or a newline, wrap it in double quotes.
+  // Also, escape any existing double quotes by doubling them up.
+  if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
   }
 
-  const headers = Object.keys(data[0]);
+  return stringValue;
+}
+
+export function buildCsv(data: EmployeeAttendance[]): string {
+  const columns = buildAttendanceColumns(data);
   const csvRows = [
-    headers.join(','), 
+    columns.map(column => column.header).join(','), 
     ...data.map(row => 
-      headers.map(header => {
-        const value = row[header];
-        
-        // Handle strings, numbers, and other types gracefully
-        const stringValue = (value === null || value === undefined) ? '' : String(value);
-
-        // If the value contains a comma, a quote, or a newline, wrap it in double quotes.
-        // Also, escape any existing double quotes by doubling them up.
-        if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-          return `"${stringValue.replace(/"/g, '""')}"`;
-        }
-
-        return stringValue;
-      }).join(',')
+      columns.map(column => formatCsvValue(column.getValue(row))).join(',')
     )
   ];
 
-  const csvString = csvRows.join('\n');
+  return csvRows.join('\n');
+}
+
+// The corrections log as its own CSV, so the attendance table keeps one row per employee.
+export function buildCorrectionsCsv(data: EmployeeAttendance[]): string {
+  return [CORRECTION_LOG_HEADERS, ...buildCorrectionLog(data)].map(row => row.map(formatCsvValue).join(',')).join('\n');
+}
+
+function downloadCsv(csvString: string, filename: string) {
   const blob = new Blob([`\uFEFF${csvString}`], { type: 'text/csv;charset=utf-8;' }); // Add BOM for Excel compatibility
   
   const link = document.createElement('a');
@@ -38,3 +46,15 @@ export function exportToCsv(data: Record<string, any>[], filename: string) {
     document.body.removeChild(link);
   }
 }
+
+// Runs with punch corrections also download `<name>-correcciones.csv`.
+export function exportToCsv(data: EmployeeAttendance[], filename: string) {
+  if (!data || data.length === 0) {
+    return;
+  }
+
+  downloadCsv(buildCsv(data), filename);
+  if (hasCorrections(data)) {
+    downloadCsv(buildCorrectionsCsv(data), filename.replace(/(\.csv)?$/i, '-correcciones.csv'));
+  }
+}
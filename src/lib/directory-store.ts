@@ -0,0 +1,53 @@
+import { collection, doc, getDocs, orderBy, query, writeBatch } from 'firebase/firestore';
+import { DirectoryEmployee, normalizeEmployeeId } from '@/lib/employee-directory';
+import { getDb } from '@/lib/firebase';
+
+// The employee directory lives in `employees/{id}`, one document per clock ID. An import replaces it wholesale.
+
+const EMPLOYEES_COLLECTION = 'employees';
+// Firestore allows 500 writes per batch.
+const BATCH_SIZE = 450;
+
+// Document IDs cannot contain '/', and "0042" and "42" must land on the same document.
+function toDocId(id: string): string {
+  return encodeURIComponent(normalizeEmployeeId(id));
+}
+
+export async function listDirectory(): Promise<DirectoryEmployee[]> {
+  const snapshot = await getDocs(query(collection(getDb(), EMPLOYEES_COLLECTION), orderBy('name')));
+  return snapshot.docs.map(d => {
+    const data = d.data();
+    return {
+      id: data.id ?? d.id,
+      name: data.name ?? '',
+      department: data.department ?? '',
+      position: data.position ?? '',
+      schedule: data.schedule ?? '',
+    };
+  });
+}
+
+/** Replaces the directory with `employees`, deleting the employees no longer listed. */
+export async function replaceDirectory(employees: DirectoryEmployee[]): Promise<void> {
+  const db = getDb();
+  const employeesRef = collection(db, EMPLOYEES_COLLECTION);
+  const keep = new Set(employees.map(e => toDocId(e.id)));
+  const existing = await getDocs(employeesRef);
+
+  const writes = [
+    ...existing.docs.filter(d => !keep.has(d.id)).map(d => ({ id: d.id, employee: null })),
+    ...employees.map(employee => ({ id: toDocId(employee.id), employee })),
+  ];
+
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const { id, employee } of writes.slice(i, i + BATCH_SIZE)) {
+      if (employee) {
+        batch.set(doc(employeesRef, id), employee);
+      } else {
+        batch.delete(doc(employeesRef, id));
+      }
+    }
+    await batch.commit();
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReconciliationStatus } from '@/lib/attendance';
+import { indexDirectory, normalizeEmployeeId, parseDirectoryCsv, reconcileEmployee } from '@/lib/employee-directory';
+
+describe('parseDirectoryCsv', () => {
+  it('reads the columns under their usual names', () => {
+    const { employees, errors } = parseDirectoryCsv('\uFEFFNo. Empleado,Nombre Completo,Área,Puesto,Turno\n0042,Ana López,Sistemas,Analista,08:00-16:00\n');
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(employees, [{ id: '0042', name: 'Ana López', department: 'Sistemas', position: 'Analista', schedule: '08:00-16:00' }]);
+  });
+
+  it('only requires the ID and name columns', () => {
+    const { employees, errors } = parseDirectoryCsv('ID,Nombre\n7,Ana López\n');
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(employees, [{ id: '7', name: 'Ana López', department: '', position: '', schedule: '' }]);
+  });
+
+  it('rejects a file without the ID or name column', () => {
+    const { employees, errors } = parseDirectoryCsv('Nombre,Departamento\nAna López,Sistemas\n');
+
+    assert.deepEqual(employees, []);
+    assert.equal(errors.length, 1);
+  });
+
+  it('reports rows without an ID and repeated IDs, and keeps the valid rows', () => {
+    const { employees, errors } = parseDirectoryCsv('ID,Nombre\n7,Ana López\n,Sin ID\n007,Ana Repetida\n8,Luis Pérez\n');
+
+    assert.deepEqual(employees.map(e => e.id), ['7', '8']);
+    assert.deepEqual(errors, ['Fila 3: falta el ID.', 'Fila 4: el ID 007 ya aparece en la fila 2.']);
+  });
+
+  it('reports an empty file', () => {
+    assert.equal(parseDirectoryCsv('').errors.length, 1);
+  });
+});
+
+describe('normalizeEmployeeId', () => {
+  it('ignores leading zeros of numeric IDs and the case of the others', () => {
+    assert.equal(normalizeEmployeeId('0042'), '42');
+    assert.equal(normalizeEmployeeId(42), '42');
+    assert.equal(normalizeEmployeeId('0'), '0');
+    assert.equal(normalizeEmployeeId(' AB-12 '), 'ab-12');
+  });
+});
+
+describe('reconcileEmployee', () => {
+  const directory = indexDirectory([
+    { id: '0042', name: 'Ana María López', department: 'Sistemas', position: 'Analista', schedule: '08:00-16:00' },
+    { id: '8', name: 'Luis Pérez', department: '', position: '', schedule: '' },
+  ]);
+
+  it('takes the directory name and department and records what changed', () => {
+    const { employee, reconciliation } = reconcileEmployee({ id: '42', name: 'ANA LOPEZ', department: 'sistemas ' }, directory);
+
+    assert.deepEqual(employee, { id: '0042', name: 'Ana María López', department: 'Sistemas', position: 'Analista', schedule: '08:00-16:00' });
+    assert.equal(reconciliation.status, ReconciliationStatus.Matched);
+    assert.deepEqual(reconciliation.corrections, [{ field: 'name', from: 'ANA LOPEZ', to: 'Ana María López' }]);
+  });
+
+  it('keeps sheet values the directory leaves empty', () => {
+    const { employee, reconciliation } = reconcileEmployee({ id: '8', name: 'luis  pérez', department: 'Almacén' }, directory);
+
+    assert.equal(employee.name, 'Luis Pérez');
+    assert.equal(employee.department, 'Almacén');
+    assert.deepEqual(reconciliation.corrections, []);
+  });
+
+  it('flags IDs the directory does not know', () => {
+    const sheet = { id: '99', name: 'Nuevo Ingreso', department: 'Ventas' };
+    const { employee, reconciliation } = reconcileEmployee(sheet, directory);
+
+    assert.equal(employee, sheet);
+    assert.equal(reconciliation.status, ReconciliationStatus.Unknown);
+  });
+});
@@ -0,0 +1,140 @@
+import * as XLSX from 'xlsx';
+import { EmployeeAttendance, EmployeeInfo, FieldCorrection, Reconciliation, ReconciliationStatus } from '@/lib/attendance';
+import { normalizeDepartment } from '@/lib/schedule-policy';
+
+// Master list of employees keyed by clock ID. The processor joins sheet rows against it to fix names and
+// departments typed at the clock terminal and to flag IDs it does not know.
+
+export interface DirectoryEmployee {
+  id: string;
+  name: string;
+  department: string;
+  position: string;
+  schedule: string;
+}
+
+export interface DirectoryImport {
+  employees: DirectoryEmployee[];
+  // One message per rejected row or header problem; the valid rows are still imported.
+  errors: string[];
+}
+
+type DirectoryField = keyof DirectoryEmployee;
+
+const HEADER_ALIASES: Record<DirectoryField, string[]> = {
+  id: ['id', 'clave', 'no. empleado', 'no empleado', 'num. empleado', 'numero', 'numero de empleado', 'id reloj'],
+  name: ['nombre', 'name', 'empleado', 'nombre completo'],
+  department: ['departamento', 'dept', 'dept.', 'department', 'area'],
+  position: ['puesto', 'position', 'cargo'],
+  schedule: ['horario', 'schedule', 'turno'],
+};
+
+function normalizeHeader(header: unknown): string {
+  return String(header ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/:$/, '')
+    .trim();
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Clock terminals pad numeric IDs inconsistently ("0042" vs "42"), so leading zeros are ignored. */
+export function normalizeEmployeeId(id: unknown): string {
+  const value = id === null || id === undefined ? '' : String(id).trim();
+  return /^\d+$/.test(value) ? value.replace(/^0+(?=\d)/, '') : value.toLowerCase();
+}
+
+export function indexDirectory(employees: DirectoryEmployee[]): Map<string, DirectoryEmployee> {
+  return new Map(employees.map(e => [normalizeEmployeeId(e.id), e]));
+}
+
+/**
+ * Reads a directory CSV with a header row. Column names are matched loosely (e.g. "Clave", "No. Empleado" or
+ * "ID" for the clock ID); only the ID and name columns are required.
+ */
+export function parseDirectoryCsv(text: string): DirectoryImport {
+  const workbook = XLSX.read(text.replace(/^\uFEFF/, ''), { type: 'string', raw: true });
+  const rows: unknown[][] = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { header: 1, defval: '', blankrows: false });
+  if (rows.length === 0) {
+    return { employees: [], errors: ['El archivo está vacío.'] };
+  }
+
+  const headers = rows[0].map(normalizeHeader);
+  const columns = Object.fromEntries(
+    (Object.keys(HEADER_ALIASES) as DirectoryField[]).map(field => [field, headers.findIndex(h => HEADER_ALIASES[field].includes(h))]),
+  ) as Record<DirectoryField, number>;
+
+  if (columns.id === -1 || columns.name === -1) {
+    return { employees: [], errors: ['La primera fila debe tener al menos las columnas "ID" y "Nombre".'] };
+  }
+
+  const employees: DirectoryEmployee[] = [];
+  const errors: string[] = [];
+  const seen = new Map<string, number>();
+
+  rows.slice(1).forEach((row, i) => {
+    const line = i + 2;
+    const read = (field: DirectoryField) => (columns[field] === -1 ? '' : String(row[columns[field]] ?? '').trim());
+    const employee: DirectoryEmployee = {
+      id: read('id'),
+      name: read('name'),
+      department: read('department'),
+      position: read('position'),
+      schedule: read('schedule'),
+    };
+
+    if (!employee.id) {
+      errors.push(`Fila ${line}: falta el ID.`);
+      return;
+    }
+    const key = normalizeEmployeeId(employee.id);
+    if (seen.has(key)) {
+      errors.push(`Fila ${line}: el ID ${employee.id} ya aparece en la fila ${seen.get(key)}.`);
+      return;
+    }
+    seen.set(key, line);
+    employees.push(employee);
+  });
+
+  return { employees, errors };
+}
+
+/**
+ * Replaces the sheet's name and department with the directory's and adds its extra fields. Employees whose ID is
+ * not in the directory keep the sheet values and are flagged as unknown.
+ */
+export function reconcileEmployee(employee: EmployeeInfo, directory: Map<string, DirectoryEmployee>): { employee: EmployeeInfo; reconciliation: Reconciliation } {
+  const entry = directory.get(normalizeEmployeeId(employee.id));
+  if (!entry) {
+    return { employee, reconciliation: { status: ReconciliationStatus.Unknown, corrections: [] } };
+  }
+
+  const corrections: FieldCorrection[] = [];
+  if (entry.name && normalizeName(entry.name) !== normalizeName(employee.name)) {
+    corrections.push({ field: 'name', from: employee.name, to: entry.name });
+  }
+  if (entry.department && normalizeDepartment(entry.department) !== normalizeDepartment(employee.department)) {
+    corrections.push({ field: 'department', from: employee.department, to: entry.department });
+  }
+
+  return {
+    employee: {
+      id: entry.id,
+      name: entry.name || employee.name,
+      department: entry.department || employee.department,
+      position: entry.position || undefined,
+      schedule: entry.schedule || undefined,
+    },
+    reconciliation: { status: ReconciliationStatus.Matched, corrections },
+  };
+}
+
+// Directory employees with no record in the processed sheets.
+export function findMissingEmployees(records: EmployeeAttendance[], directory: DirectoryEmployee[]): DirectoryEmployee[] {
+  const found = new Set(records.map(r => normalizeEmployeeId(r.employee.id)));
+  return directory.filter(e => !found.has(normalizeEmployeeId(e.id)));
+}
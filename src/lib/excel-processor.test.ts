@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { detectReportPeriod, inspectWorkbook } from '@/lib/excel-processor';
+
+const DAY_HEADER = ['ID', 'Nombre', 'Departamento', 1, 2, 3, 4, 5, 6, 7];
+
+function buildXlsx(sheets: Record<string, unknown[][]>): File {
+  const workbook = XLSX.utils.book_new();
+  for (const [sheetName, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName);
+  }
+  return new File([XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })], 'reporte.xlsx');
+}
+
+describe('detectReportPeriod', () => {
+  it('reads the range printed above the day header', async () => {
+    const file = buildXlsx({
+      Reporte: [['Reporte de Asistencia'], ['Periodo: 2025-07-01 ~ 2025-07-31'], DAY_HEADER, ['1', 'Ana', 'Sistemas', '08:00 16:00']],
+    });
+
+    assert.deepEqual(await detectReportPeriod(file, 'Reporte'), { startDate: '2025-07-01', endDate: '2025-07-31' });
+  });
+
+  it('finds ranges split across cells', async () => {
+    const file = buildXlsx({ Reporte: [['2025-07-01', '~', '2025-07-15'], DAY_HEADER] });
+
+    assert.deepEqual(await detectReportPeriod(file, 'Reporte'), { startDate: '2025-07-01', endDate: '2025-07-15' });
+  });
+
+  it('reads day-first ranges', async () => {
+    const file = buildXlsx({ Reporte: [['Del 01/07/2025 al 31/07/2025'], DAY_HEADER] });
+
+    assert.deepEqual(await detectReportPeriod(file, 'Reporte'), { startDate: '2025-07-01', endDate: '2025-07-31' });
+  });
+
+  it('reads the requested sheet', async () => {
+    const file = buildXlsx({
+      Julio: [['2025-07-01 ~ 2025-07-31'], DAY_HEADER],
+      Agosto: [['2025-08-01 ~ 2025-08-31'], DAY_HEADER],
+    });
+
+    assert.deepEqual(await detectReportPeriod(file, 'Agosto'), { startDate: '2025-08-01', endDate: '2025-08-31' });
+  });
+
+  it('ignores ranges below the day header', async () => {
+    const file = buildXlsx({ Reporte: [['Reporte de Asistencia'], DAY_HEADER, ['2025-07-01 ~ 2025-07-31']] });
+
+    assert.equal(await detectReportPeriod(file, 'Reporte'), null);
+  });
+
+  it('returns null for ranges that are not valid periods', async () => {
+    const file = buildXlsx({ Reporte: [['2025-07-31 ~ 2025-07-01'], DAY_HEADER] });
+
+    assert.equal(await detectReportPeriod(file, 'Reporte'), null);
+  });
+
+  it('reads CSV exports', async () => {
+    const file = new File(['\uFEFFPeriodo,2025-07-01 ~ 2025-07-31\nID,Nombre,Departamento,1,2,3,4,5,6,7\n'], 'reporte.csv');
+
+    assert.deepEqual(await detectReportPeriod(file, 'Sheet1'), { startDate: '2025-07-01', endDate: '2025-07-31' });
+  });
+
+  it('fails for sheets not in the workbook', async () => {
+    const file = buildXlsx({ Reporte: [DAY_HEADER] });
+
+    await assert.rejects(detectReportPeriod(file, 'Agosto'), /Sheet "Agosto" not found/);
+  });
+});
+
+describe('inspectWorkbook', () => {
+  it('lists the sheets with the period printed in each', async () => {
+    const file = buildXlsx({
+      Julio: [['2025-07-01 ~ 2025-07-31'], DAY_HEADER],
+      Notas: [['Sin periodo']],
+    });
+
+    assert.deepEqual(await inspectWorkbook(file), {
+      sheetNames: ['Julio', 'Notas'],
+      periods: { Julio: { startDate: '2025-07-01', endDate: '2025-07-31' }, Notas: null },
+    });
+  });
+
+  it('fails for files that are not workbooks', async () => {
+    await assert.rejects(inspectWorkbook(new File(['PK\u0003\u0004garbage'], 'reporte.xlsx')));
+  });
+});
@@ -1,10 +1,86 @@
 import * as XLSX from 'xlsx';
+import { addDays } from 'date-fns';
+import { DayPunches, pairPunches, pairShiftPunches, parsePunches, roundDayPunches } from '@/lib/punches';
+import { detectFileFormat } from '@/lib/file-formats';
+import {
+  AttendanceSource,
+  EmployeeAttendance,
+  EmployeeInfo,
+  ReconciliationStatus,
+  evaluateDay,
+  mergeEmployeeRecords,
+  summarizeDays,
+} from '@/lib/attendance';
+import { DirectoryEmployee, findMissingEmployees, indexDirectory, reconcileEmployee } from '@/lib/employee-directory';
+import { HolidayCalendar, resolveHolidays } from '@/lib/holidays';
+import { Justification, JustificationIndex, findJustification, indexJustifications } from '@/lib/justifications';
+import { ReportPeriod, getPeriodDates, intersectPeriods, parsePeriodText, toIsoDate, validatePeriod } from '@/lib/period';
+import { SchedulePolicy, resolveSchedule } from '@/lib/schedule-policy';
+
+// Settings shared by every sheet of a run.
+export interface ExtractionConfig extends ReportPeriod {
+  policy: SchedulePolicy;
+  // Absent in runs saved before holidays were supported.
+  holidays?: HolidayCalendar;
+}
 
-export interface ProcessConfig {
+export interface ProcessConfig extends ExtractionConfig {
   sheetName: string;
-  days: string;
-  year: number;
-  month: string;
+}
+
+// A browser File, or the raw bytes of a workbook read elsewhere (e.g. from disk) with its file name.
+export type WorkbookInput = File | { name: string; data: ArrayBuffer | Uint8Array };
+
+// Employee data kept outside the workbooks. Unlike ExtractionConfig it is not stored with saved runs; its effect is
+// already part of the records.
+export interface EmployeeReferences {
+  // Reconciles clock IDs, names and departments, and adds directory employees absent from every sheet.
+  directory?: DirectoryEmployee[];
+  // Days they cover are reported as justified.
+  justifications?: Justification[];
+}
+
+interface ReferenceIndex {
+  directory?: Map<string, DirectoryEmployee>;
+  justifications: JustificationIndex;
+}
+
+export interface WorkbookSource {
+  file: WorkbookInput;
+  sheetNames: string[];
+}
+
+export interface SourceReport extends AttendanceSource {
+  employeeCount: number;
+  error?: string;
+}
+
+export interface BatchResult {
+  records: EmployeeAttendance[];
+  sources: SourceReport[];
+}
+
+// Reported while a batch runs. Rows and employees add up every sheet read so far, including the current one; an
+// employee found in two sheets counts twice, as records are only merged at the end.
+export interface BatchProgress {
+  sheetsTotal: number;
+  sheetsDone: number;
+  // Sheet being read; null once the batch is merging its records.
+  current: AttendanceSource | null;
+  currentRowsScanned: number;
+  currentRowsTotal: number;
+  rowsScanned: number;
+  employeesFound: number;
+}
+
+export type BatchProgressListener = (progress: BatchProgress) => void;
+
+// Rows between two progress reports of the same sheet.
+const PROGRESS_ROW_INTERVAL = 200;
+
+interface DayColumn {
+  day: number;
+  column: number;
 }
 
 function cleanData(data: any[][]): any[][] {
@@ -30,44 +106,17 @@ function cleanData(data: any[][]): any[][] {
   return filteredData;
 }
 
-function calculateHours(timeString: string | null | undefined): number | string {
-  if (!timeString || typeof timeString !== 'string') {
-    return 'NO HAY REGISTRO';
-  }
-
-  const parts = timeString.split('\n').map(p => p.trim()).filter(p => p);
-  
-  if (parts.length === 0) {
-    return 'NO HAY REGISTRO';
-  }
-  
-  if (parts.length === 1) {
-    return 'REGISTRO INCOMPLETO';
-  }
-
-  const timeRegex = /(\d{1,2}):(\d{2})/;
-  
-  const inMatch = parts[0].match(timeRegex);
-  const outMatch = parts[parts.length - 1].match(timeRegex);
-
-  if (!inMatch || !outMatch) {
-    return 'REGISTRO INCOMPLETO';
-  }
-
-  const inDate = new Date();
-  inDate.setHours(parseInt(inMatch[1], 10), parseInt(inMatch[2], 10), 0, 0);
-  
-  const outDate = new Date();
-  outDate.setHours(parseInt(outMatch[1], 10), parseInt(outMatch[2], 10), 0, 0);
-
-  if (outDate <= inDate) {
-    return 'REGISTRO INCOMPLETO';
-  }
-
-  const diffMillis = outDate.getTime() - inDate.getTime();
-  const diffHours = diffMillis / (1000 * 60 * 60);
-
-  return parseFloat(diffHours.toFixed(2));
+// Pairs an employee's punches for each entry of `columns`, which lists the sheet column of consecutive
+// calendar dates (undefined when the date has no column), then applies the policy's rounding.
+function pairEmployeeDays(dateRow: any[], columns: (number | undefined)[], policy: SchedulePolicy, department: unknown): DayPunches[] {
+  const rawDays = columns.map(col => (col !== undefined && col < dateRow.length ? parsePunches(dateRow[col]) : []));
+
+  const schedule = resolveSchedule(policy, department);
+  const paired = (policy.shiftAware || schedule.overnight)
+    ? pairShiftPunches(rawDays, () => schedule.overnight)
+    : rawDays.map(pairPunches);
+  // Policies saved before rounding existed have no `rounding`.
+  return policy.rounding ? paired.map(day => roundDayPunches(day, policy.rounding)) : paired;
 }
 
 function isDayToken(cell: any): boolean {
@@ -78,33 +127,43 @@ function isDayToken(cell: any): boolean {
   return n >= 1 && n <= 31;
 }
 
-function detectDayHeaderRow(data: any[][]): { headerRowIndex: number; dayToColumn: Map<string, number> } {
+function detectDayHeaderRow(data: any[][]): { headerRowIndex: number; dayColumns: DayColumn[] } {
   let bestIndex = -1;
   let bestCount = -1;
-  let bestMap = new Map<string, number>();
+  let bestColumns: DayColumn[] = [];
 
   const limit = Math.min(20, data.length);
   for (let i = 0; i < limit; i++) {
     const row = data[i] || [];
-    const tmpMap = new Map<string, number>();
-    let count = 0;
+    const columns: DayColumn[] = [];
+    const seen = new Set<number>();
     for (let j = 0; j < row.length; j++) {
       if (isDayToken(row[j])) {
-        const key = String(parseInt(String(row[j]).trim(), 10));
-        if (!tmpMap.has(key)) {
-          tmpMap.set(key, j);
-          count++;
-        }
+        const day = parseInt(String(row[j]).trim(), 10);
+        columns.push({ day, column: j });
+        seen.add(day);
       }
     }
-    if (count > bestCount) {
-      bestCount = count;
+    if (seen.size > bestCount) {
+      bestCount = seen.size;
       bestIndex = i;
-      bestMap = tmpMap;
+      bestColumns = columns;
     }
   }
 
-  return { headerRowIndex: bestIndex, dayToColumn: bestMap };
+  return { headerRowIndex: bestIndex, dayColumns: bestColumns };
+}
+
+// Assigns each date the index of its header column by walking the header left to right, so a period
+// spanning two months (..., 30, 31, 1, 2, ...) maps every day number to the right month.
+function mapDatesToColumns(dates: Date[], dayColumns: DayColumn[]): (number | undefined)[] {
+  let pointer = 0;
+  return dates.map(date => {
+    const idx = dayColumns.findIndex((c, i) => i >= pointer && c.day === date.getDate());
+    if (idx === -1) return undefined;
+    pointer = idx + 1;
+    return idx;
+  });
 }
 
 function extractLabeledValue(row: any[], label: string, offsets: number[] = [1, 2]): string | number | null {
@@ -133,26 +192,118 @@ function extractLabeledValue(row: any[], label: string, offsets: number[] = [1,
   return null;
 }
 
-export async function processExcel(file: File, config: ProcessConfig): Promise<Record<string, any>[]> {
-  const buffer = await file.arrayBuffer();
-  const workbook = XLSX.read(buffer, { type: 'buffer' });
-  
-  if (!workbook.SheetNames.includes(config.sheetName)) {
-    throw new Error(`Sheet "${config.sheetName}" not found. Available sheets: ${workbook.SheetNames.join(', ')}`);
+async function readWorkbook(file: WorkbookInput): Promise<XLSX.WorkBook> {
+  const buffer = 'data' in file ? file.data : await file.arrayBuffer();
+  const type = 'type' in file ? file.type : '';
+
+  if (detectFileFormat({ name: file.name, type }) === 'csv') {
+    // Decode as UTF-8 ourselves (SheetJS would read the bytes as Latin-1) and keep every value as text,
+    // so punch times and IDs are not turned into numbers.
+    const text = new TextDecoder('utf-8').decode(buffer).replace(/^\uFEFF/, '');
+    return XLSX.read(text, { type: 'string', raw: true });
+  }
+
+  return XLSX.read(buffer, { type: 'buffer' });
+}
+
+function getSheetRows(workbook: XLSX.WorkBook, sheetName: string): any[][] {
+  if (!workbook.SheetNames.includes(sheetName)) {
+    throw new Error(`Sheet "${sheetName}" not found. Available sheets: ${workbook.SheetNames.join(', ')}`);
   }
 
-  const worksheet = workbook.Sheets[config.sheetName];
+  const worksheet = workbook.Sheets[sheetName];
   let jsonData: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: null, blankrows: false });
 
-  let data = cleanData(jsonData);
+  return cleanData(jsonData);
+}
+
+function findReportPeriod(data: any[][]): ReportPeriod | null {
+  const { headerRowIndex } = detectDayHeaderRow(data);
+  const limit = headerRowIndex > 0 ? headerRowIndex : Math.min(20, data.length);
 
-  // Detect the header row that contains the days of the month and build a day->column map
-  const { dayToColumn } = detectDayHeaderRow(data);
+  for (let i = 0; i < limit; i++) {
+    // Join the row so ranges split across cells ("2025-07-01", "~", "2025-07-31") are still found.
+    const text = (data[i] || []).filter(cell => cell !== null && cell !== undefined).join(' ');
+    const period = parsePeriodText(text);
+    if (period) return period;
+  }
 
-  const records: Record<string, any>[] = [];
-  const days = config.days.split(',').map(d => d.trim()).filter(d => d);
+  return null;
+}
+
+export interface WorkbookInfo {
+  sheetNames: string[];
+  // Report range printed above each sheet's day header; null where none was found.
+  periods: Record<string, ReportPeriod | null>;
+}
+
+// Reads the workbook once for its sheets and their periods, so choosing sheets does not read the file again.
+export async function inspectWorkbook(file: WorkbookInput): Promise<WorkbookInfo> {
+  const workbook = await readWorkbook(file);
+  const periods: Record<string, ReportPeriod | null> = {};
+  for (const sheetName of workbook.SheetNames) {
+    try {
+      periods[sheetName] = findReportPeriod(getSheetRows(workbook, sheetName));
+    } catch {
+      periods[sheetName] = null;
+    }
+  }
+  return { sheetNames: workbook.SheetNames, periods };
+}
+
+/**
+ * Looks for the report range that clock exports print above the day header (e.g. "2025-07-01 ~ 2025-07-31").
+ * Returns null when no row above the header contains a valid range.
+ */
+export async function detectReportPeriod(file: WorkbookInput, sheetName: string): Promise<ReportPeriod | null> {
+  const workbook = await readWorkbook(file);
+  return findReportPeriod(getSheetRows(workbook, sheetName));
+}
+
+function indexReferences(references: EmployeeReferences): ReferenceIndex {
+  return {
+    directory: references.directory ? indexDirectory(references.directory) : undefined,
+    justifications: indexJustifications(references.justifications ?? []),
+  };
+}
+
+function extractSheet(
+  data: any[][],
+  config: ExtractionConfig,
+  source: AttendanceSource,
+  references: ReferenceIndex,
+  onRows?: (rowsScanned: number, employeesFound: number) => void,
+): EmployeeAttendance[] {
+  // A sheet that states its own range only contributes the days it actually covers, so workbooks of
+  // consecutive months can be combined under one period.
+  const sheetPeriod = findReportPeriod(data);
+  const period = sheetPeriod ? intersectPeriods(config, sheetPeriod) : config;
+  if (!period) {
+    throw new Error(`The sheet covers ${sheetPeriod!.startDate} to ${sheetPeriod!.endDate}, outside the selected period.`);
+  }
+
+  // Detect the header row that contains the days of the month and locate each date of the period in it
+  const { dayColumns } = detectDayHeaderRow(data);
+  const dates = getPeriodDates(period);
+  const holidays = resolveHolidays(config.holidays, period);
+  const columnIndices = mapDatesToColumns([...dates, addDays(dates[dates.length - 1], 1)], dayColumns);
+
+  if (columnIndices.slice(0, dates.length).every(idx => idx === undefined)) {
+    throw new Error(`None of the days between ${period.startDate} and ${period.endDate} were found in the sheet header.`);
+  }
+
+  // The day before the period only counts when its column sits right before the first date's column;
+  // it is read so an overnight shift that started the previous evening does not leave a stray exit.
+  const firstIdx = columnIndices[0];
+  const previousIdx = firstIdx !== undefined && firstIdx > 0 && dayColumns[firstIdx - 1].day === addDays(dates[0], -1).getDate()
+    ? firstIdx - 1
+    : undefined;
+  const columns = [previousIdx, ...columnIndices].map(idx => (idx === undefined ? undefined : dayColumns[idx].column));
+
+  const records: EmployeeAttendance[] = [];
 
   for (let i = 0; i < data.length - 1; i++) {
+    if (onRows && i % PROGRESS_ROW_INTERVAL === 0) onRows(i, records.length);
     const row = data[i];
     const nextRow = data[i+1];
 
@@ -162,52 +313,40 @@ export async function processExcel(file: File, config: ProcessConfig): Promise<R
       const id = extractLabeledValue(row, 'ID :', [2, 1]);
       const name = extractLabeledValue(row, 'Nombre :', [1, 2]);
       const department = extractLabeledValue(row, 'Dept. :', [2, 1]);
-      
+      const sheetEmployee: EmployeeInfo = {
+        id: id === null ? '' : String(id),
+        name: name === null ? '' : String(name),
+        department: department === null ? '' : String(department),
+      };
+
+      // The directory's department decides which schedule applies, so reconcile before evaluating the days.
+      const { employee, reconciliation } = references.directory
+        ? reconcileEmployee(sheetEmployee, references.directory)
+        : { employee: sheetEmployee, reconciliation: undefined };
+
       const dateRow = nextRow || [];
+      const punchesByDay = pairEmployeeDays(dateRow, columns, config.policy, employee.department).slice(1, dates.length + 1);
 
-      const dayRecords: { [key: string]: any } = {};
-      let totalHours = 0;
-      let registeredDaysCount = 0;
-      let daysWithInsufficientHours = 0;
-      let daysWithSufficientHours = 0;
-
-      days.forEach((day) => {
-        const d = String(parseInt(day, 10));
-        const dateKey = `${d}-${config.month}-${config.year}`;
-        const hoursKey = `Horas-${d}`;
-        const colIndex = dayToColumn.get(d);
+      const days = dates.map((date, dayIndex) => {
+        const colIndex = columns[dayIndex + 1];
         const value = (colIndex !== undefined && colIndex < dateRow.length) ? dateRow[colIndex] : null;
-        const hours = calculateHours(value);
-
-        dayRecords[dateKey] = (value !== null && value !== undefined) ? value : "";
-        dayRecords[hoursKey] = hours;
-
-        if (typeof hours === 'number') {
-            totalHours += hours;
-            registeredDaysCount++;
-            if (hours < 7.75) {
-                daysWithInsufficientHours++;
-            } else {
-                daysWithSufficientHours++;
-            }
-        } else if (hours === 'REGISTRO INCOMPLETO') {
-          daysWithInsufficientHours++;
-        } else if (hours === 'NO HAY REGISTRO') {
-          daysWithInsufficientHours++;
-        }
+        const rawValue = (value !== null && value !== undefined) ? String(value) : '';
+        const isoDate = toIsoDate(date);
+        const justification = findJustification(references.justifications, employee.id, isoDate);
+        return evaluateDay(isoDate, rawValue, punchesByDay[dayIndex], config.policy, employee.department, {
+          holiday: holidays.get(isoDate),
+          justification,
+          shift: employee.schedule,
+        });
       });
 
-      const averageHours = registeredDaysCount > 0 ? parseFloat((totalHours / registeredDaysCount).toFixed(2)) : 0;
-      
       if (id || name) {
           records.push({
-            'ID': id,
-            'Nombre': name,
-            'Departamento': department,
-            ...dayRecords,
-            'Horas/Día': averageHours,
-            'Días Cumplidos': daysWithSufficientHours,
-            'Días Incumplidos': daysWithInsufficientHours,
+            employee,
+            days,
+            summary: summarizeDays(days, config.policy),
+            sources: [source],
+            ...(reconciliation ? { reconciliation } : {}),
           });
       }
 
@@ -215,5 +354,125 @@ export async function processExcel(file: File, config: ProcessConfig): Promise<R
     }
   }
 
+  onRows?.(data.length, records.length);
   return records;
 }
+
+// Directory employees that no sheet mentions get a record with every day unregistered, so absences show up.
+function appendMissingEmployees(records: EmployeeAttendance[], config: ExtractionConfig, directory: DirectoryEmployee[], justifications: JustificationIndex): EmployeeAttendance[] {
+  const dates = getPeriodDates(config).map(toIsoDate);
+  const holidays = resolveHolidays(config.holidays, config);
+  const missing = findMissingEmployees(records, directory).map((entry): EmployeeAttendance => {
+    const days = dates.map(date =>
+      evaluateDay(date, '', pairPunches([]), config.policy, entry.department, {
+        holiday: holidays.get(date),
+        justification: findJustification(justifications, entry.id, date),
+      }));
+    return {
+      employee: {
+        id: entry.id,
+        name: entry.name,
+        department: entry.department,
+        position: entry.position || undefined,
+        schedule: entry.schedule || undefined,
+      },
+      days,
+      summary: summarizeDays(days, config.policy),
+      sources: [],
+      reconciliation: { status: ReconciliationStatus.Missing, corrections: [] },
+    };
+  });
+  return [...records, ...missing];
+}
+
+/**
+ * Processes one sheet. With a `references.directory`, employees are reconciled against it by clock ID and
+ * directory employees absent from the sheet are added as missing.
+ */
+export async function processExcel(file: WorkbookInput, config: ProcessConfig, references: EmployeeReferences = {}): Promise<EmployeeAttendance[]> {
+  const periodError = validatePeriod(config);
+  if (periodError) {
+    throw new Error(periodError);
+  }
+
+  const workbook = await readWorkbook(file);
+  const source = { fileName: file.name, sheetName: config.sheetName };
+  const index = indexReferences(references);
+  const records = extractSheet(getSheetRows(workbook, config.sheetName), config, source, index);
+  return references.directory ? appendMissingEmployees(records, config, references.directory, index.justifications) : records;
+}
+
+/**
+ * Processes every selected sheet of every file and merges employees by ID. A sheet that fails is reported
+ * in `sources` with its error instead of aborting the batch. `references` work as in processExcel.
+ * `onProgress` is called as each sheet is read and every few hundred rows while it is scanned.
+ */
+export async function processBatch(
+  sources: WorkbookSource[],
+  config: ExtractionConfig,
+  references: EmployeeReferences = {},
+  onProgress?: BatchProgressListener,
+): Promise<BatchResult> {
+  const periodError = validatePeriod(config);
+  if (periodError) {
+    throw new Error(periodError);
+  }
+
+  const index = indexReferences(references);
+  const records: EmployeeAttendance[] = [];
+  const reports: SourceReport[] = [];
+  const progress: BatchProgress = {
+    sheetsTotal: sources.reduce((sum, s) => sum + s.sheetNames.length, 0),
+    sheetsDone: 0,
+    current: null,
+    currentRowsScanned: 0,
+    currentRowsTotal: 0,
+    rowsScanned: 0,
+    employeesFound: 0,
+  };
+  const report = (changes: Partial<BatchProgress>) => {
+    Object.assign(progress, changes);
+    onProgress?.({ ...progress });
+  };
+
+  for (const { file, sheetNames } of sources) {
+    report({ current: sheetNames.length > 0 ? { fileName: file.name, sheetName: sheetNames[0] } : null, currentRowsScanned: 0, currentRowsTotal: 0 });
+    let workbook: XLSX.WorkBook;
+    try {
+      workbook = await readWorkbook(file);
+    } catch (error: any) {
+      sheetNames.forEach(sheetName => reports.push({ fileName: file.name, sheetName, employeeCount: 0, error: error.message || 'Unreadable file.' }));
+      report({ sheetsDone: progress.sheetsDone + sheetNames.length });
+      continue;
+    }
+
+    for (const sheetName of sheetNames) {
+      const source = { fileName: file.name, sheetName };
+      const { rowsScanned, employeesFound } = progress;
+      report({ current: source });
+      try {
+        const data = getSheetRows(workbook, sheetName);
+        report({ currentRowsTotal: data.length });
+        const sheetRecords = extractSheet(data, config, source, index, (scanned, found) => report({
+          currentRowsScanned: scanned,
+          rowsScanned: rowsScanned + scanned,
+          employeesFound: employeesFound + found,
+        }));
+        records.push(...sheetRecords);
+        reports.push({ ...source, employeeCount: sheetRecords.length });
+      } catch (error: any) {
+        reports.push({ ...source, employeeCount: 0, error: error.message || 'Unknown error.' });
+        // A failed sheet adds no employees.
+        progress.employeesFound = employeesFound;
+      }
+      report({ sheetsDone: progress.sheetsDone + 1, currentRowsScanned: 0, currentRowsTotal: 0 });
+    }
+  }
+
+  report({ current: null });
+  const merged = mergeEmployeeRecords(records, config.policy);
+  return {
+    records: references.directory ? appendMissingEmployees(merged, config, references.directory, index.justifications) : merged,
+    sources: reports,
+  };
+}
@@ -0,0 +1,88 @@
+export type AttendanceFileFormat = 'xlsx' | 'xls' | 'ods' | 'csv';
+
+interface FormatInfo {
+  label: string;
+  extension: string;
+  mimeTypes: string[];
+}
+
+export const FILE_FORMATS: Record<AttendanceFileFormat, FormatInfo> = {
+  xlsx: {
+    label: 'Excel (.xlsx)',
+    extension: '.xlsx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  },
+  xls: {
+    label: 'Excel 97-2003 (.xls)',
+    extension: '.xls',
+    mimeTypes: ['application/vnd.ms-excel'],
+  },
+  ods: {
+    label: 'OpenDocument (.ods)',
+    extension: '.ods',
+    mimeTypes: ['application/vnd.oasis.opendocument.spreadsheet'],
+  },
+  csv: {
+    label: 'CSV (.csv)',
+    extension: '.csv',
+    mimeTypes: ['text/csv', 'application/csv'],
+  },
+};
+
+// Value for the `accept` attribute of file inputs.
+export const ACCEPTED_FILE_TYPES = Object.values(FILE_FORMATS)
+  .flatMap(f => [f.extension, ...f.mimeTypes])
+  .join(',');
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((b, i) => bytes[i] === b);
+}
+
+export function detectFileFormat(file: { name: string; type: string }): AttendanceFileFormat | null {
+  const name = file.name.toLowerCase();
+  const formats = Object.keys(FILE_FORMATS) as AttendanceFileFormat[];
+  // The extension wins over the MIME type, which browsers often guess wrong for CSV and .xls.
+  return formats.find(f => name.endsWith(FILE_FORMATS[f].extension))
+    ?? formats.find(f => FILE_FORMATS[f].mimeTypes.includes(file.type))
+    ?? null;
+}
+
+/**
+ * Checks that the file content matches its format before handing it to the parser, so users get a
+ * format-specific message instead of a generic parse failure. Returns null when the file looks valid.
+ */
+export function validateFileContent(format: AttendanceFileFormat, bytes: Uint8Array): string | null {
+  if (bytes.length === 0) {
+    return 'El archivo está vacío.';
+  }
+
+  switch (format) {
+    case 'xlsx':
+      return startsWith(bytes, ZIP_SIGNATURE) ? null : 'El archivo .xlsx está dañado o no es un libro de Excel. Si viene de un reloj checador antiguo, guárdalo como .xls o .csv.';
+    case 'ods':
+      return startsWith(bytes, ZIP_SIGNATURE) ? null : 'El archivo .ods está dañado o no es una hoja de cálculo de OpenDocument.';
+    case 'xls':
+      // Many clock terminals write HTML or tab-separated text with an .xls extension; the parser reads those too.
+      return startsWith(bytes, ZIP_SIGNATURE)
+        ? 'El archivo tiene extensión .xls pero es un libro .xlsx; cambia la extensión a .xlsx.'
+        : null;
+    case 'csv':
+      if (startsWith(bytes, ZIP_SIGNATURE) || startsWith(bytes, OLE_SIGNATURE)) {
+        return 'El archivo .csv es en realidad un libro de Excel; cambia la extensión a .xlsx o .xls.';
+      }
+      return bytes.slice(0, 1024).includes(0) ? 'El archivo .csv contiene datos binarios y no es texto separado por comas.' : null;
+  }
+}
+
+export async function validateAttendanceFile(file: File): Promise<string | null> {
+  const format = detectFileFormat(file);
+  if (!format) {
+    return `Formato no soportado. Sube un archivo ${Object.values(FILE_FORMATS).map(f => f.extension).join(', ')}.`;
+  }
+
+  const bytes = new Uint8Array(await file.slice(0, 1024).arrayBuffer());
+  return validateFileContent(format, bytes);
+}
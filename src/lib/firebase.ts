@@ -0,0 +1,52 @@
+import { FirebaseApp, getApp, getApps, initializeApp } from 'firebase/app';
+import { Auth, connectAuthEmulator, getAuth } from 'firebase/auth';
+import { Firestore, connectFirestoreEmulator, initializeFirestore } from 'firebase/firestore';
+
+// Web config comes from NEXT_PUBLIC_* variables (see docs/firestore.md). Each one has to be written out in full
+// so Next.js can inline it in the client bundle.
+const firebaseConfig = {
+  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+};
+
+// "host:port" of the emulators, e.g. 127.0.0.1:8080 and 127.0.0.1:9099.
+const firestoreEmulatorHost = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST;
+const authEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+
+let firestore: Firestore | null = null;
+let auth: Auth | null = null;
+
+export function isFirebaseConfigured(): boolean {
+  return Boolean(firebaseConfig.projectId);
+}
+
+export function getFirebaseApp(): FirebaseApp {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured. Set NEXT_PUBLIC_FIREBASE_PROJECT_ID.');
+  }
+  return getApps().length > 0 ? getApp() : initializeApp(firebaseConfig);
+}
+
+export function getDb(): Firestore {
+  if (!firestore) {
+    // Optional fields of the attendance records (e.g. Punch.nextDay) are left undefined rather than omitted.
+    firestore = initializeFirestore(getFirebaseApp(), { ignoreUndefinedProperties: true });
+    if (firestoreEmulatorHost) {
+      const [host, port] = firestoreEmulatorHost.split(':');
+      connectFirestoreEmulator(firestore, host, Number(port));
+    }
+  }
+  return firestore;
+}
+
+export function getFirebaseAuth(): Auth {
+  if (!auth) {
+    auth = getAuth(getFirebaseApp());
+    if (authEmulatorHost) {
+      connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+    }
+  }
+  return auth;
+}
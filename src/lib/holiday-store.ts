@@ -0,0 +1,24 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { EMPTY_HOLIDAY_CALENDAR, HolidayCalendar } from '@/lib/holidays';
+
+// The company holiday calendar is a single document, `settings/holidays`, used as the default of every run.
+
+const SETTINGS_COLLECTION = 'settings';
+const HOLIDAYS_DOC = 'holidays';
+
+export async function loadHolidayCalendar(): Promise<HolidayCalendar> {
+  const snapshot = await getDoc(doc(getDb(), SETTINGS_COLLECTION, HOLIDAYS_DOC));
+  const data = snapshot.data();
+  return {
+    presets: data?.presets ?? EMPTY_HOLIDAY_CALENDAR.presets,
+    customDays: data?.customDays ?? EMPTY_HOLIDAY_CALENDAR.customDays,
+  };
+}
+
+export async function saveHolidayCalendar(calendar: HolidayCalendar): Promise<void> {
+  await setDoc(doc(getDb(), SETTINGS_COLLECTION, HOLIDAYS_DOC), {
+    presets: calendar.presets,
+    customDays: [...calendar.customDays].sort((a, b) => a.date.localeCompare(b.date)),
+  });
+}
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EMPTY_HOLIDAY_CALENDAR, getPresetHolidays, resolveHolidays } from '@/lib/holidays';
+
+describe('getPresetHolidays', () => {
+  it('moves the Monday holidays to the right week', () => {
+    const dates = getPresetHolidays('mx-oficial', 2025).map(h => h.date);
+
+    assert.ok(dates.includes('2025-02-03'));
+    assert.ok(dates.includes('2025-03-17'));
+    assert.ok(dates.includes('2025-11-17'));
+  });
+
+  it('adds the change of federal government every six years', () => {
+    const has = (year: number) => getPresetHolidays('mx-oficial', year).some(h => h.date === `${year}-10-01`);
+
+    assert.equal(has(2024), true);
+    assert.equal(has(2025), false);
+    assert.equal(has(2030), true);
+  });
+
+  it('places Holy Thursday and Friday before Easter Sunday', () => {
+    const holyWeek = (year: number) => getPresetHolidays('mx-tradicional', year).slice(0, 2).map(h => h.date);
+
+    // Easter Sunday fell on 2024-03-31, 2025-04-20 and 2026-04-05.
+    assert.deepEqual(holyWeek(2024), ['2024-03-28', '2024-03-29']);
+    assert.deepEqual(holyWeek(2025), ['2025-04-17', '2025-04-18']);
+    assert.deepEqual(holyWeek(2026), ['2026-04-02', '2026-04-03']);
+  });
+});
+
+describe('resolveHolidays', () => {
+  it('keeps the holidays inside the period', () => {
+    const holidays = resolveHolidays({ presets: ['mx-oficial'], customDays: [] }, { startDate: '2025-09-01', endDate: '2025-09-30' });
+
+    assert.deepEqual(Array.from(holidays.entries()), [['2025-09-16', 'Día de la Independencia']]);
+  });
+
+  it('covers periods that span two years', () => {
+    const holidays = resolveHolidays({ presets: ['mx-oficial'], customDays: [] }, { startDate: '2025-12-20', endDate: '2026-01-10' });
+
+    assert.deepEqual(Array.from(holidays.keys()), ['2025-12-25', '2026-01-01']);
+  });
+
+  it('lets company days replace the name of a preset holiday', () => {
+    const holidays = resolveHolidays(
+      { presets: ['mx-oficial'], customDays: [{ date: '2025-12-25', name: 'Cierre anual' }, { date: '2025-12-26', name: '' }] },
+      { startDate: '2025-12-01', endDate: '2025-12-31' },
+    );
+
+    assert.equal(holidays.get('2025-12-25'), 'Cierre anual');
+    assert.equal(holidays.get('2025-12-26'), 'Día inhábil');
+  });
+
+  it('returns no holidays without a calendar', () => {
+    const period = { startDate: '2025-12-01', endDate: '2025-12-31' };
+
+    assert.equal(resolveHolidays(undefined, period).size, 0);
+    assert.equal(resolveHolidays(EMPTY_HOLIDAY_CALENDAR, period).size, 0);
+  });
+});
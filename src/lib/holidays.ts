@@ -0,0 +1,102 @@
+import { addDays } from 'date-fns';
+import { ReportPeriod, getPeriodDates, parseIsoDate, toIsoDate } from '@/lib/period';
+
+// Days off that do not count toward compliance: national holidays from a preset plus company-specific days.
+
+export type HolidayPresetId = 'mx-oficial' | 'mx-tradicional';
+
+export const HOLIDAY_PRESET_IDS: HolidayPresetId[] = ['mx-oficial', 'mx-tradicional'];
+
+export const HOLIDAY_PRESET_LABELS: Record<HolidayPresetId, string> = {
+  'mx-oficial': 'Descansos obligatorios (LFT art. 74)',
+  'mx-tradicional': 'Días tradicionales (Semana Santa, Día de Muertos, 12 de diciembre)',
+};
+
+export interface Holiday {
+  // ISO yyyy-MM-dd.
+  date: string;
+  name: string;
+}
+
+export interface HolidayCalendar {
+  presets: HolidayPresetId[];
+  customDays: Holiday[];
+}
+
+export const EMPTY_HOLIDAY_CALENDAR: HolidayCalendar = { presets: [], customDays: [] };
+
+// `n`-th occurrence (1-based) of `weekday` in the month, e.g. the third Monday of March.
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  const first = new Date(year, month, 1);
+  return addDays(first, ((weekday - first.getDay() + 7) % 7) + (n - 1) * 7);
+}
+
+// Gregorian Easter Sunday (anonymous algorithm).
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+function holiday(date: Date, name: string): Holiday {
+  return { date: toIsoDate(date), name };
+}
+
+const PRESETS: Record<HolidayPresetId, (year: number) => Holiday[]> = {
+  'mx-oficial': (year) => [
+    holiday(new Date(year, 0, 1), 'Año Nuevo'),
+    holiday(nthWeekday(year, 1, 1, 1), 'Día de la Constitución'),
+    holiday(nthWeekday(year, 2, 1, 3), 'Natalicio de Benito Juárez'),
+    holiday(new Date(year, 4, 1), 'Día del Trabajo'),
+    holiday(new Date(year, 8, 16), 'Día de la Independencia'),
+    // Every six years, starting 2024.
+    ...(year >= 2024 && (year - 2024) % 6 === 0 ? [holiday(new Date(year, 9, 1), 'Transmisión del Poder Ejecutivo Federal')] : []),
+    holiday(nthWeekday(year, 10, 1, 3), 'Día de la Revolución'),
+    holiday(new Date(year, 11, 25), 'Navidad'),
+  ],
+  'mx-tradicional': (year) => [
+    holiday(addDays(easterSunday(year), -3), 'Jueves Santo'),
+    holiday(addDays(easterSunday(year), -2), 'Viernes Santo'),
+    holiday(new Date(year, 10, 2), 'Día de Muertos'),
+    holiday(new Date(year, 11, 12), 'Día de la Virgen de Guadalupe'),
+  ],
+};
+
+export function getPresetHolidays(preset: HolidayPresetId, year: number): Holiday[] {
+  return PRESETS[preset](year);
+}
+
+/**
+ * Holidays of the calendar that fall within `period`, keyed by ISO date. A custom day on the same date as a preset
+ * holiday replaces its name.
+ */
+export function resolveHolidays(calendar: HolidayCalendar | undefined, period: ReportPeriod): Map<string, string> {
+  const holidays = new Map<string, string>();
+  if (!calendar) return holidays;
+
+  const start = parseIsoDate(period.startDate);
+  const end = parseIsoDate(period.endDate);
+  if (!start || !end) return holidays;
+
+  const inPeriod = new Set(getPeriodDates(period).map(toIsoDate));
+  for (let year = start.getFullYear(); year <= end.getFullYear(); year++) {
+    for (const preset of calendar.presets) {
+      getPresetHolidays(preset, year).filter(h => inPeriod.has(h.date)).forEach(h => holidays.set(h.date, h.name));
+    }
+  }
+  calendar.customDays.filter(h => inPeriod.has(h.date)).forEach(h => holidays.set(h.date, h.name || 'Día inhábil'));
+
+  return holidays;
+}
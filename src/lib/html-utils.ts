@@ -1,25 +1,6 @@
-function getCellClass(header: string, value: any): string {
-    // Prioritize column-specific styling
-    if (header === 'Días Cumplidos') {
-        return 'dias-cumplidos';
-    }
-    if (header === 'Días Incumplidos') {
-        return 'dias-incumplidos';
-    }
-
-    // Then apply generic value-based styling
-    if (typeof value === 'string') {
-        if (value === 'NO HAY REGISTRO') return 'no-registro';
-        if (value === 'REGISTRO INCOMPLETO') return 'registro-incompleto';
-    }
-    if (typeof value === 'number' && value < 7.75) {
-        return 'horas-insuficientes';
-    }
-    if (typeof value === 'number' && value >= 7.75) {
-        return 'horas-normales';
-    }
-    return '';
-}
+import { EmployeeAttendance } from '@/lib/attendance';
+import { buildAttendanceColumns } from '@/lib/attendance-table';
+import { CORRECTION_LOG_HEADERS, buildCorrectionLog, hasCorrections } from '@/lib/punch-corrections';
 
 function getStyles(): string {
     return `
@@ -35,6 +16,10 @@ function getStyles(): string {
             text-align: center;
             margin-bottom: 2rem;
         }
+        h2 {
+            color: #E5E7EB;
+            margin: 2.5rem 0 1rem;
+        }
         table {
             width: 100%;
             border-collapse: collapse;
@@ -97,6 +82,40 @@ function getStyles(): string {
             padding: 0.25rem 0.5rem;
             border-radius: 0.375rem; /* rounded-md */
         }
+        .justificado {
+            font-weight: 600;
+            padding: 0.25rem 0.5rem;
+            border-radius: 9999px;
+            display: inline-block;
+            font-size: 0.75rem;
+            background-color: #075985; /* bg-sky-800 */
+            color: #E0F2FE; /* text-sky-100 */
+        }
+        .dias-justificados {
+            background-color: rgba(14, 165, 233, 0.15); /* sky-500 @ 15% */
+            color: #0EA5E9; /* text-sky-500 */
+            font-weight: 700;
+            padding: 0.25rem 0.5rem;
+            border-radius: 0.375rem; /* rounded-md */
+        }
+        .retardo {
+            color: #FBBF24; /* text-amber-400 */
+        }
+        .retardos {
+            background-color: rgba(245, 158, 11, 0.15); /* amber-500 @ 15% */
+            color: #F59E0B; /* text-amber-500 */
+            font-weight: 700;
+            padding: 0.25rem 0.5rem;
+            border-radius: 0.375rem; /* rounded-md */
+        }
+        .dia-no-laborable {
+            color: #94A3B8; /* text-slate-400 */
+            font-style: italic;
+        }
+        .directorio-alerta {
+            color: #FACC15; /* text-yellow-400 */
+            font-size: 0.75rem;
+        }
         .check-icon {
             color: #22C55E; /* text-green-500 */
             display: inline-block;
@@ -117,32 +136,54 @@ function formatCellContent(value: any): string {
     const stringValue = String(value);
 
     if (stringValue.includes('\n')) {
-        const parts = stringValue.split('\n');
-        return `
+        // Punches alternate entry/exit, so odd positions are exits.
+        return stringValue.split('\n').map((part, i) => `
             <div>
-                <span class="check-icon">✔</span>${parts[0]}
+                <span class="${i % 2 === 0 ? 'check-icon' : 'cross-icon'}">✔</span>${part}
             </div>
-            <div>
-                <span class="cross-icon">✔</span>${parts[1]}
-            </div>
-        `;
+        `).join('');
     }
     
     return stringValue;
 }
 
-export function exportToHtml(data: Record<string, any>[], filename: string) {
+// Correction reasons are free text typed by users.
+function escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function buildCorrectionsSection(data: EmployeeAttendance[]): string {
+    if (!hasCorrections(data)) return '';
+
+    const rows = buildCorrectionLog(data)
+        .map(row => `<tr>${row.map(value => `<td>${escapeHtml(value)}</td>`).join('')}</tr>`)
+        .join('');
+    return `
+            <h2>Registro de Correcciones</h2>
+            <table>
+                <thead>
+                    <tr>
+                        ${CORRECTION_LOG_HEADERS.map(header => `<th>${header}</th>`).join('')}
+                    </tr>
+                </thead>
+                <tbody>
+                    ${rows}
+                </tbody>
+            </table>
+    `;
+}
+
+export function exportToHtml(data: EmployeeAttendance[], filename: string) {
     if (!data || data.length === 0) {
         return;
     }
 
-    const headers = Object.keys(data[0]);
+    const columns = buildAttendanceColumns(data);
 
     const tableRows = data.map(row => {
-        const tableCells = headers.map(header => {
-            const cellValue = row[header];
-            const cellClass = getCellClass(header, cellValue);
-            const formattedContent = formatCellContent(cellValue);
+        const tableCells = columns.map(column => {
+            const cellClass = column.getTone(row) ?? '';
+            const formattedContent = formatCellContent(column.getValue(row));
             return `<td class="${cellClass}">${formattedContent}</td>`;
         }).join('');
         return `<tr>${tableCells}</tr>`;
@@ -162,13 +203,14 @@ export function exportToHtml(data: Record<string, any>[], filename: string) {
             <table>
                 <thead>
                     <tr>
-                        ${headers.map(h => `<th>${h}</th>`).join('')}
+                        ${columns.map(column => `<th>${column.header}</th>`).join('')}
                     </tr>
                 </thead>
                 <tbody>
                     ${tableRows}
                 </tbody>
             </table>
+            ${buildCorrectionsSection(data)}
         </body>
         </html>
     `;
@@ -0,0 +1,46 @@
+import { addDoc, collection, deleteDoc, doc, getDocs, orderBy, query, serverTimestamp, where } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { Justification, NewJustification, overlapsPeriod } from '@/lib/justifications';
+import { ReportPeriod } from '@/lib/period';
+import { RunAuthor } from '@/lib/run-history';
+
+// Justifications live in `justifications/{id}`, one document per employee and date range.
+
+const JUSTIFICATIONS_COLLECTION = 'justifications';
+
+/** Justifications overlapping `period`, or all of them when no period is given, latest first. */
+export async function listJustifications(period?: ReportPeriod): Promise<Justification[]> {
+  const justificationsRef = collection(getDb(), JUSTIFICATIONS_COLLECTION);
+  // Firestore allows a range filter on one field only; the start date is checked here.
+  const snapshot = await getDocs(period
+    ? query(justificationsRef, where('endDate', '>=', period.startDate), orderBy('endDate', 'desc'))
+    : query(justificationsRef, orderBy('endDate', 'desc')));
+
+  const justifications = snapshot.docs.map((d): Justification => {
+    const data = d.data();
+    return {
+      id: d.id,
+      employeeId: data.employeeId,
+      type: data.type,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      note: data.note ?? '',
+      approvedBy: data.approvedBy ?? '',
+    };
+  });
+  return period ? justifications.filter(j => overlapsPeriod(j, period)) : justifications;
+}
+
+export async function createJustification(justification: NewJustification, createdBy: RunAuthor | null): Promise<string> {
+  const ref = await addDoc(collection(getDb(), JUSTIFICATIONS_COLLECTION), {
+    ...justification,
+    employeeId: justification.employeeId.trim(),
+    createdBy,
+    createdAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+export async function deleteJustification(id: string): Promise<void> {
+  await deleteDoc(doc(getDb(), JUSTIFICATIONS_COLLECTION, id));
+}
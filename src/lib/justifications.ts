@@ -0,0 +1,52 @@
+import { normalizeEmployeeId } from '@/lib/employee-directory';
+import { ReportPeriod } from '@/lib/period';
+
+// Approved absences (vacation, sick leave, commissions...) attached to an employee for a range of dates. Days they
+// cover are reported as justified instead of non-compliant.
+
+export type JustificationType = 'vacaciones' | 'incapacidad' | 'permiso' | 'comision' | 'otro';
+
+export const JUSTIFICATION_TYPES: JustificationType[] = ['vacaciones', 'incapacidad', 'permiso', 'comision', 'otro'];
+
+export const JUSTIFICATION_LABELS: Record<JustificationType, string> = {
+  vacaciones: 'Vacaciones',
+  incapacidad: 'Incapacidad',
+  permiso: 'Permiso',
+  comision: 'Comisión',
+  otro: 'Otro',
+};
+
+export interface Justification extends ReportPeriod {
+  id: string;
+  // Clock ID of the employee.
+  employeeId: string;
+  type: JustificationType;
+  note: string;
+  approvedBy: string;
+}
+
+// What a justified day keeps of its justification.
+export type DayJustification = Pick<Justification, 'id' | 'type' | 'note' | 'approvedBy'>;
+
+export type NewJustification = Omit<Justification, 'id'>;
+
+export type JustificationIndex = Map<string, Justification[]>;
+
+export function indexJustifications(justifications: Justification[]): JustificationIndex {
+  const index: JustificationIndex = new Map();
+  for (const justification of justifications) {
+    const key = normalizeEmployeeId(justification.employeeId);
+    index.set(key, [...(index.get(key) ?? []), justification]);
+  }
+  return index;
+}
+
+/** The justification covering `date` (ISO) for the employee, if any. */
+export function findJustification(index: JustificationIndex, employeeId: string, date: string): DayJustification | undefined {
+  const match = index.get(normalizeEmployeeId(employeeId))?.find(j => j.startDate <= date && date <= j.endDate);
+  return match && { id: match.id, type: match.type, note: match.note, approvedBy: match.approvedBy };
+}
+
+export function overlapsPeriod(justification: Justification, period: ReportPeriod): boolean {
+  return justification.startDate <= period.endDate && period.startDate <= justification.endDate;
+}
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateDay } from '@/lib/attendance';
+import { computeWeeklyOvertime } from '@/lib/overtime';
+import { pairPunches, parsePunches } from '@/lib/punches';
+import { DEFAULT_OVERTIME_POLICY, DEFAULT_SCHEDULE_POLICY, SchedulePolicy } from '@/lib/schedule-policy';
+
+// Eight required hours every day keeps the overtime in whole hours.
+const policy: SchedulePolicy = {
+  ...DEFAULT_SCHEDULE_POLICY,
+  requiredHours: { 0: 8, 1: 8, 2: 8, 3: 8, 4: 8, 5: 8, 6: 8 },
+};
+
+function buildDays(cells: Record<string, string>) {
+  return Object.entries(cells).map(([date, cell]) => evaluateDay(date, cell, pairPunches(parsePunches(cell)), policy, 'Sistemas'));
+}
+
+describe('computeWeeklyOvertime', () => {
+  it('pays daily overtime double up to the daily limit and triple beyond', () => {
+    const [week] = computeWeeklyOvertime(buildDays({ '2025-07-07': '08:00 20:00' }));
+
+    assert.equal(week.week, '2025-W28');
+    assert.equal(week.startDate, '2025-07-07');
+    assert.equal(week.workedHours, 12);
+    assert.equal(week.dailyOvertimeHours, 4);
+    assert.equal(week.doubleHours, 3);
+    assert.equal(week.tripleHours, 1);
+  });
+
+  it('pays triple once the week has used its double hours', () => {
+    const days = buildDays({
+      '2025-07-07': '08:00 19:00',
+      '2025-07-08': '08:00 19:00',
+      '2025-07-09': '08:00 19:00',
+      '2025-07-10': '08:00 19:00',
+    });
+
+    const [week] = computeWeeklyOvertime(days);
+
+    assert.equal(week.dailyOvertimeHours, 12);
+    assert.equal(week.doubleHours, 9);
+    assert.equal(week.tripleHours, 3);
+  });
+
+  it('groups days by ISO week', () => {
+    const weeks = computeWeeklyOvertime(buildDays({ '2025-07-07': '08:00 18:00', '2025-07-06': '08:00 18:00' }));
+
+    assert.deepEqual(weeks.map(w => [w.week, w.startDate, w.doubleHours]), [['2025-W27', '2025-06-30', 2], ['2025-W28', '2025-07-07', 2]]);
+  });
+
+  it('adds the hours beyond the weekly cap that are not daily overtime', () => {
+    const days = buildDays({
+      '2025-07-07': '08:00 16:00',
+      '2025-07-08': '08:00 16:00',
+      '2025-07-09': '08:00 16:00',
+      '2025-07-10': '08:00 16:00',
+      '2025-07-11': '08:00 18:00',
+      '2025-07-12': '08:00 16:00',
+    });
+
+    const [week] = computeWeeklyOvertime(days, { ...DEFAULT_OVERTIME_POLICY, weeklyHours: 40 });
+
+    assert.equal(week.workedHours, 50);
+    assert.equal(week.dailyOvertimeHours, 2);
+    assert.equal(week.weeklyOvertimeHours, 8);
+    assert.equal(week.doubleHours, 9);
+    assert.equal(week.tripleHours, 1);
+  });
+
+  it('treats a zero limit as no limit', () => {
+    const [week] = computeWeeklyOvertime(buildDays({ '2025-07-07': '06:00 20:00' }), { weeklyHours: 0, doubleHoursPerDay: 0, doubleHoursPerWeek: 0 });
+
+    assert.equal(week.doubleHours, 6);
+    assert.equal(week.tripleHours, 0);
+  });
+
+  it('ignores days without worked hours', () => {
+    const [week] = computeWeeklyOvertime(buildDays({ '2025-07-07': '', '2025-07-08': '08:00' }));
+
+    assert.equal(week.workedHours, 0);
+    assert.equal(week.doubleHours, 0);
+  });
+});
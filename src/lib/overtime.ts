@@ -0,0 +1,80 @@
+import { getISOWeek, getISOWeekYear, startOfISOWeek } from 'date-fns';
+import { DayAttendance } from '@/lib/attendance';
+import { parseIsoDate, toIsoDate } from '@/lib/period';
+import { minutesToHours } from '@/lib/punches';
+import { DEFAULT_OVERTIME_POLICY, OvertimePolicy } from '@/lib/schedule-policy';
+
+export interface WeekOvertime {
+  // ISO week, e.g. "2025-W27".
+  week: string;
+  // Monday of the week, yyyy-MM-dd. Weeks cut by the period only count the days inside it.
+  startDate: string;
+  workedHours: number;
+  // Sum of the days' overtime.
+  dailyOvertimeHours: number;
+  // Hours beyond the weekly cap not already counted as daily overtime.
+  weeklyOvertimeHours: number;
+  doubleHours: number;
+  tripleHours: number;
+}
+
+export function formatIsoWeek(date: Date): string {
+  return `${getISOWeekYear(date)}-W${String(getISOWeek(date)).padStart(2, '0')}`;
+}
+
+function limitMinutes(hours: number): number {
+  return hours > 0 ? Math.round(hours * 60) : Infinity;
+}
+
+/**
+ * Overtime of `days` grouped by ISO week. Daily overtime is taken in date order: each day pays double up to the
+ * daily limit while the week's double hours last, and triple beyond. Hours over the weekly cap come last.
+ */
+export function computeWeeklyOvertime(days: DayAttendance[], rules: OvertimePolicy = DEFAULT_OVERTIME_POLICY): WeekOvertime[] {
+  const weeks = new Map<string, { startDate: string; days: DayAttendance[] }>();
+  for (const day of [...days].sort((a, b) => a.date.localeCompare(b.date))) {
+    const date = parseIsoDate(day.date)!;
+    const key = formatIsoWeek(date);
+    const week = weeks.get(key) ?? { startDate: toIsoDate(startOfISOWeek(date)), days: [] };
+    week.days.push(day);
+    weeks.set(key, week);
+  }
+
+  return Array.from(weeks.entries()).map(([week, { startDate, days: weekDays }]) => {
+    let remainingDouble = limitMinutes(rules.doubleHoursPerWeek);
+    let workedMinutes = 0;
+    let dailyMinutes = 0;
+    let doubleMinutes = 0;
+    let tripleMinutes = 0;
+
+    const pay = (minutes: number, dailyLimit: number) => {
+      const double = Math.min(minutes, dailyLimit, remainingDouble);
+      remainingDouble -= double;
+      doubleMinutes += double;
+      tripleMinutes += minutes - double;
+    };
+
+    for (const day of weekDays) {
+      // Days of older saved runs have no overtimeMinutes.
+      const overtime = day.overtimeMinutes ?? 0;
+      workedMinutes += day.hours !== null ? Math.round(day.hours * 60) : 0;
+      dailyMinutes += overtime;
+      pay(overtime, limitMinutes(rules.doubleHoursPerDay));
+    }
+
+    const weeklyMinutes = rules.weeklyHours > 0
+      ? Math.max(0, workedMinutes - Math.round(rules.weeklyHours * 60) - dailyMinutes)
+      : 0;
+    pay(weeklyMinutes, Infinity);
+
+    return {
+      week,
+      startDate,
+      workedHours: minutesToHours(workedMinutes),
+      dailyOvertimeHours: minutesToHours(dailyMinutes),
+      weeklyOvertimeHours: minutesToHours(weeklyMinutes),
+      doubleHours: minutesToHours(doubleMinutes),
+      tripleHours: minutesToHours(tripleMinutes),
+    };
+  });
+}
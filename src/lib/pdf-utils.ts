@@ -0,0 +1,371 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { CellHookData, RowInput } from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { AttendanceSource, AttendanceStatus, DayAttendance, EmployeeAttendance, getRecordDepartment, summarizeByDepartment } from '@/lib/attendance';
+import { formatJustification, formatPunches } from '@/lib/attendance-table';
+import { parseIsoDate } from '@/lib/period';
+import { minutesToHours } from '@/lib/punches';
+import { formatCorrectionAuthor, hasCorrections, isDayCorrected } from '@/lib/punch-corrections';
+
+export interface PdfReportOptions {
+  // Adds one page per department listing its employees' totals, plus an overview of all departments.
+  includeDepartmentSummary: boolean;
+}
+
+type Rgb = [number, number, number];
+
+const MARGIN = 15;
+const HEADER_FILL: Rgb = [55, 65, 81];
+
+// Printable counterparts of the status colours used by the table and the HTML export.
+const STATUS_COLORS: Record<AttendanceStatus, { fill?: Rgb; text: Rgb }> = {
+  [AttendanceStatus.Complete]: { text: [21, 128, 61] },
+  [AttendanceStatus.Insufficient]: { text: [194, 65, 12] },
+  [AttendanceStatus.Incomplete]: { fill: [255, 237, 213], text: [154, 52, 18] },
+  [AttendanceStatus.Missing]: { fill: [254, 226, 226], text: [153, 27, 27] },
+  [AttendanceStatus.NonWorking]: { fill: [241, 245, 249], text: [71, 85, 105] },
+  [AttendanceStatus.Justified]: { fill: [224, 242, 254], text: [3, 105, 161] },
+};
+
+function formatDate(isoDate: string, pattern: string): string {
+  const date = parseIsoDate(isoDate);
+  return date ? format(date, pattern, { locale: es }) : isoDate;
+}
+
+// Placeholder for missing values; jsPDF's standard fonts drop "—".
+const NO_VALUE = '-';
+
+function formatHours(hours: number | null): string {
+  return hours === null ? NO_VALUE : hours.toFixed(2);
+}
+
+// formatSource with ">" instead of "›", which the standard fonts also drop.
+function formatPdfSource(source: AttendanceSource): string {
+  return `${source.fileName} > ${source.sheetName}`;
+}
+
+function getPeriodLabel(records: EmployeeAttendance[]): string {
+  const dates = records.flatMap(r => r.days.map(d => d.date)).sort();
+  if (dates.length === 0) return '';
+  return `Del ${formatDate(dates[0], 'dd/MM/yyyy')} al ${formatDate(dates[dates.length - 1], 'dd/MM/yyyy')}`;
+}
+
+// Y position right below the last table drawn by autoTable.
+function getTableEndY(doc: jsPDF): number {
+  return (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+}
+
+function drawPageHeader(doc: jsPDF, title: string, lines: string[]): number {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(title, MARGIN, MARGIN + 5);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  let y = MARGIN + 12;
+  for (const line of lines) {
+    doc.text(line, MARGIN, y);
+    y += 5;
+  }
+  return y + 2;
+}
+
+// Draws signature lines side by side, moving to a new page when they do not fit below the content.
+function drawSignatures(doc: jsPDF, startY: number, labels: string[]) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let y = startY + 25;
+  if (y + 10 > pageHeight - MARGIN) {
+    doc.addPage();
+    y = MARGIN + 25;
+  }
+
+  const slotWidth = (pageWidth - MARGIN * 2) / labels.length;
+  doc.setFontSize(9);
+  labels.forEach((label, i) => {
+    const x1 = MARGIN + slotWidth * i + 8;
+    const x2 = MARGIN + slotWidth * (i + 1) - 8;
+    doc.line(x1, y, x2, y);
+    doc.text(label, (x1 + x2) / 2, y + 5, { align: 'center' });
+  });
+}
+
+function formatDayStatus(day: DayAttendance): string {
+  if (day.status === AttendanceStatus.NonWorking && day.nonWorking) return day.nonWorking;
+  if (day.status === AttendanceStatus.Justified && day.justification) {
+    return [formatJustification(day.justification), day.justification.note].filter(Boolean).join(': ');
+  }
+  return [
+    day.status,
+    day.lateMinutes ? `Retardo: ${day.lateMinutes} min` : '',
+    day.earlyLeaveMinutes ? `Salida anticipada: ${day.earlyLeaveMinutes} min` : '',
+    day.overtimeMinutes ? `Extra: ${minutesToHours(day.overtimeMinutes).toFixed(2)} h` : '',
+  ].filter(Boolean).join('\n');
+}
+
+// jsPDF's standard fonts only cover Latin-1; any other character garbles or drops text.
+function formatPdfPunches(day: DayAttendance): string {
+  return formatPunches(day.punches, '->');
+}
+
+function dayRow(day: DayAttendance, corrected: boolean): RowInput {
+  return [
+    formatDate(day.date, 'EEE dd/MM/yyyy'),
+    corrected ? `${formatPdfPunches(day)}\n(corregido)` : formatPdfPunches(day),
+    // Rounded days also show the hours as clocked.
+    day.rawHours !== undefined ? `${formatHours(day.hours)}\n(${day.rawHours.toFixed(2)} reg.)` : formatHours(day.hours),
+    day.breakHours.toFixed(2),
+    day.requiredHours.toFixed(2),
+    formatDayStatus(day),
+  ];
+}
+
+function drawEmployeePage(doc: jsPDF, record: EmployeeAttendance, periodLabel: string) {
+  const { employee, days, summary } = record;
+  const startY = drawPageHeader(doc, 'Registro de Asistencia', [
+    `Empleado: ${employee.name || NO_VALUE}`,
+    `ID: ${employee.id || NO_VALUE}    Departamento: ${getRecordDepartment(record)}`,
+    ...(employee.position || employee.schedule
+      ? [[employee.position && `Puesto: ${employee.position}`, employee.schedule && `Horario: ${employee.schedule}`].filter(Boolean).join('    ')]
+      : []),
+    periodLabel,
+  ]);
+
+  autoTable(doc, {
+    startY,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Fecha', 'Checadas', 'Horas', 'Descanso', 'Requeridas', 'Estado']],
+    body: days.map(day => dayRow(day, isDayCorrected(record, day.date))),
+    foot: [['Totales', '', summary.totalHours.toFixed(2), '', '', `${summary.compliantDays} cumplidos / ${summary.nonCompliantDays} incumplidos / ${summary.justifiedDays ?? 0} justificados`]],
+    showFoot: 'lastPage',
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [243, 244, 246], textColor: 20 },
+    columnStyles: {
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+    },
+    didParseCell: (data: CellHookData) => {
+      if (data.section !== 'body' || data.column.index !== 5) return;
+      const colors = STATUS_COLORS[days[data.row.index].status];
+      data.cell.styles.textColor = colors.text;
+      data.cell.styles.fontStyle = 'bold';
+      if (colors.fill) data.cell.styles.fillColor = colors.fill;
+    },
+  });
+
+  let y = getTableEndY(doc) + 6;
+  doc.setFontSize(9);
+  doc.text(`Promedio de horas por día trabajado: ${summary.averageHours.toFixed(2)}`, MARGIN, y);
+  // Older saved runs have no shift totals.
+  if (summary.lateArrivals || summary.earlyDepartures || summary.overtimeHours) {
+    y += 5;
+    doc.text([
+      `Retardos: ${summary.lateArrivals ?? 0} (${summary.lateMinutes ?? 0} min)`,
+      `Salidas anticipadas: ${summary.earlyDepartures ?? 0} (${summary.earlyLeaveMinutes ?? 0} min)`,
+      ...(summary.tardinessAbsences ? [`Faltas por retardos: ${summary.tardinessAbsences}`] : []),
+      `Horas extra: ${(summary.overtimeHours ?? 0).toFixed(2)}`,
+    ].join('    '), MARGIN, y);
+  }
+
+  const overtimeWeeks = (summary.overtimeWeeks ?? []).filter(w => w.dailyOvertimeHours + w.weeklyOvertimeHours > 0);
+  if (overtimeWeeks.length > 0) {
+    autoTable(doc, {
+      startY: y + 4,
+      margin: { left: MARGIN, right: MARGIN },
+      head: [['Semana', 'Desde', 'Horas Trabajadas', 'Extra Diaria', 'Extra Semanal', 'Dobles', 'Triples']],
+      body: overtimeWeeks.map(w => [
+        w.week,
+        formatDate(w.startDate, 'dd/MM/yyyy'),
+        w.workedHours.toFixed(2),
+        w.dailyOvertimeHours.toFixed(2),
+        w.weeklyOvertimeHours.toFixed(2),
+        w.doubleHours.toFixed(2),
+        w.tripleHours.toFixed(2),
+      ]),
+      foot: [['Totales', '', '', '', '', (summary.doubleOvertimeHours ?? 0).toFixed(2), (summary.tripleOvertimeHours ?? 0).toFixed(2)]],
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 1.5, halign: 'right' },
+      headStyles: { fillColor: HEADER_FILL },
+      footStyles: { fillColor: [243, 244, 246], textColor: 20 },
+      columnStyles: { 0: { halign: 'left' }, 1: { halign: 'left' } },
+    });
+    y = getTableEndY(doc);
+  }
+  if (record.sources.length > 0) {
+    y += 5;
+    doc.text(`Origen: ${record.sources.map(formatPdfSource).join('; ')}`, MARGIN, y, { maxWidth: doc.internal.pageSize.getWidth() - MARGIN * 2 });
+  }
+
+  drawSignatures(doc, y, ['Firma del empleado', 'Firma del jefe inmediato']);
+}
+
+function drawDepartmentPage(doc: jsPDF, department: string, records: EmployeeAttendance[], periodLabel: string) {
+  const summaries = summarizeByDepartment(records);
+  const totals = summaries[summaries.length - 1];
+  const startY = drawPageHeader(doc, `Resumen de Asistencia · ${department}`, [periodLabel]);
+
+  autoTable(doc, {
+    startY,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['ID', 'Nombre', 'Horas Totales', 'Horas/Día', 'Días Cumplidos', 'Días Incumplidos', 'Días Justificados', 'Retardos', 'Faltas por Retardos']],
+    body: records.map(r => [
+      r.employee.id,
+      r.employee.name,
+      r.summary.totalHours.toFixed(2),
+      r.summary.averageHours.toFixed(2),
+      r.summary.compliantDays,
+      r.summary.nonCompliantDays,
+      r.summary.justifiedDays ?? 0,
+      r.summary.lateArrivals ?? 0,
+      r.summary.tardinessAbsences ?? 0,
+    ]),
+    foot: [[
+      `${totals.employees} empleado(s)`,
+      '',
+      totals.totalHours.toFixed(2),
+      totals.averageHours.toFixed(2),
+      totals.compliantDays,
+      totals.nonCompliantDays,
+      totals.justifiedDays,
+      records.reduce((sum, r) => sum + (r.summary.lateArrivals ?? 0), 0),
+      records.reduce((sum, r) => sum + (r.summary.tardinessAbsences ?? 0), 0),
+    ]],
+    showFoot: 'lastPage',
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [243, 244, 246], textColor: 20 },
+    columnStyles: {
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      7: { halign: 'right' },
+      8: { halign: 'right' },
+    },
+  });
+
+  drawSignatures(doc, getTableEndY(doc), ['Firma del jefe de departamento', 'Recursos Humanos']);
+}
+
+function drawOverviewPage(doc: jsPDF, records: EmployeeAttendance[], periodLabel: string) {
+  const summaries = summarizeByDepartment(records);
+  const startY = drawPageHeader(doc, 'Resumen por Departamento', [periodLabel]);
+
+  const toRow = (d: (typeof summaries)[number]) => [
+    d.department,
+    d.employees,
+    d.compliantDays,
+    d.nonCompliantDays,
+    d.justifiedDays,
+    d.totalHours.toFixed(2),
+    d.averageHours.toFixed(2),
+    `${(d.complianceRate * 100).toFixed(1)}%`,
+  ];
+
+  autoTable(doc, {
+    startY,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Departamento', 'Empleados', 'Días Cumplidos', 'Días Incumplidos', 'Días Justificados', 'Horas Totales', 'Horas/Día', '% Cumplimiento']],
+    body: summaries.slice(0, -1).map(toRow),
+    foot: [toRow(summaries[summaries.length - 1])],
+    showFoot: 'lastPage',
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [243, 244, 246], textColor: 20 },
+  });
+}
+
+// Every punch correction in the report, for the HR file.
+function drawCorrectionsPage(doc: jsPDF, records: EmployeeAttendance[], periodLabel: string) {
+  const startY = drawPageHeader(doc, 'Registro de Correcciones', [periodLabel]);
+
+  autoTable(doc, {
+    startY,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['ID', 'Nombre', 'Fecha', 'Anteriores', 'Nuevas', 'Motivo', 'Corregido por', 'Fecha de Corrección']],
+    body: records.flatMap(record => (record.corrections ?? []).map(c => [
+      record.employee.id,
+      record.employee.name,
+      formatDate(c.date, 'dd/MM/yyyy'),
+      c.previousPunches.join('\n'),
+      c.newPunches.join('\n'),
+      c.reason,
+      formatCorrectionAuthor(c),
+      format(new Date(c.correctedAt), 'dd/MM/yyyy HH:mm'),
+    ])),
+    theme: 'grid',
+    styles: { fontSize: 7, cellPadding: 1.5 },
+    headStyles: { fillColor: HEADER_FILL },
+  });
+}
+
+function drawPageNumbers(doc: jsPDF) {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  doc.setFontSize(8);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(`Página ${page} de ${pageCount}`, pageWidth - MARGIN, pageHeight - 8, { align: 'right' });
+  }
+}
+
+/**
+ * Builds a printable A4 report with one page per employee (grouped by department) and, optionally, the
+ * department roll-up. Works in the browser and on the server; returns the PDF bytes.
+ */
+export function buildAttendancePdf(data: EmployeeAttendance[], options: PdfReportOptions): ArrayBuffer {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const periodLabel = getPeriodLabel(data);
+
+  const sorted = [...data].sort((a, b) =>
+    getRecordDepartment(a).localeCompare(getRecordDepartment(b)) || a.employee.name.localeCompare(b.employee.name));
+
+  sorted.forEach((record, i) => {
+    if (i > 0) doc.addPage();
+    drawEmployeePage(doc, record, periodLabel);
+  });
+
+  if (options.includeDepartmentSummary) {
+    const departments = Array.from(new Set(sorted.map(getRecordDepartment)));
+    for (const department of departments) {
+      doc.addPage();
+      drawDepartmentPage(doc, department, sorted.filter(r => getRecordDepartment(r) === department), periodLabel);
+    }
+    doc.addPage();
+    drawOverviewPage(doc, sorted, periodLabel);
+  }
+
+  if (hasCorrections(sorted)) {
+    doc.addPage();
+    drawCorrectionsPage(doc, sorted, periodLabel);
+  }
+
+  drawPageNumbers(doc);
+  return doc.output('arraybuffer');
+}
+
+export function exportToPdf(data: EmployeeAttendance[], filename: string, options: PdfReportOptions) {
+  if (!data || data.length === 0) {
+    return;
+  }
+
+  const blob = new Blob([buildAttendancePdf(data, options)], { type: 'application/pdf' });
+  const link = document.createElement('a');
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+}
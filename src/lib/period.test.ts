@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { coverPeriods, getPeriodDates, intersectPeriods, parsePeriodText, toIsoDate, validatePeriod } from '@/lib/period';
+
+describe('validatePeriod', () => {
+  it('accepts a period of up to MAX_PERIOD_DAYS days', () => {
+    assert.equal(validatePeriod({ startDate: '2025-07-01', endDate: '2025-07-31' }), null);
+    assert.equal(validatePeriod({ startDate: '2025-07-01', endDate: '2025-07-01' }), null);
+    assert.equal(validatePeriod({ startDate: '2025-07-01', endDate: '2025-08-31' }), null);
+  });
+
+  it('rejects dates that are not yyyy-MM-dd', () => {
+    assert.match(validatePeriod({ startDate: '01/07/2025', endDate: '2025-07-31' }) ?? '', /Start date/);
+    assert.match(validatePeriod({ startDate: '2025-07-01', endDate: '2025-02-30' }) ?? '', /End date/);
+  });
+
+  it('rejects an end date before the start date', () => {
+    assert.match(validatePeriod({ startDate: '2025-07-31', endDate: '2025-07-01' }) ?? '', /is before start date/);
+  });
+
+  it('rejects periods longer than MAX_PERIOD_DAYS days', () => {
+    assert.match(validatePeriod({ startDate: '2025-07-01', endDate: '2025-09-01' }) ?? '', /cannot span more than 62 days/);
+  });
+});
+
+describe('getPeriodDates', () => {
+  it('lists every date of the period, both ends included', () => {
+    const dates = getPeriodDates({ startDate: '2025-06-29', endDate: '2025-07-02' }).map(toIsoDate);
+
+    assert.deepEqual(dates, ['2025-06-29', '2025-06-30', '2025-07-01', '2025-07-02']);
+  });
+
+  it('returns no dates for an invalid period', () => {
+    assert.deepEqual(getPeriodDates({ startDate: '2025-07-02', endDate: '2025-07-01' }), []);
+  });
+});
+
+describe('parsePeriodText', () => {
+  it('finds year-first ranges', () => {
+    assert.deepEqual(parsePeriodText('Periodo: 2025-07-01 ~ 2025-07-31'), { startDate: '2025-07-01', endDate: '2025-07-31' });
+    assert.deepEqual(parsePeriodText('2025/7/1 to 2025/7/15'), { startDate: '2025-07-01', endDate: '2025-07-15' });
+  });
+
+  it('finds day-first ranges', () => {
+    assert.deepEqual(parsePeriodText('Del 01/07/2025 al 31/07/2025'), { startDate: '2025-07-01', endDate: '2025-07-31' });
+    assert.deepEqual(parsePeriodText('1.7.2025 - 15.7.2025'), { startDate: '2025-07-01', endDate: '2025-07-15' });
+  });
+
+  it('returns null without a valid range', () => {
+    assert.equal(parsePeriodText('Reporte de Asistencia'), null);
+    assert.equal(parsePeriodText('2025-07-31 ~ 2025-07-01'), null);
+    assert.equal(parsePeriodText('2025-01-01 ~ 2025-12-31'), null);
+  });
+});
+
+describe('intersectPeriods', () => {
+  it('returns the days both periods share', () => {
+    const overlap = intersectPeriods({ startDate: '2025-07-01', endDate: '2025-07-20' }, { startDate: '2025-07-10', endDate: '2025-07-31' });
+
+    assert.deepEqual(overlap, { startDate: '2025-07-10', endDate: '2025-07-20' });
+  });
+
+  it('returns null for periods that do not overlap', () => {
+    assert.equal(intersectPeriods({ startDate: '2025-07-01', endDate: '2025-07-09' }, { startDate: '2025-07-10', endDate: '2025-07-31' }), null);
+  });
+});
+
+describe('coverPeriods', () => {
+  it('spans from the earliest start to the latest end', () => {
+    const periods = [
+      { startDate: '2025-07-10', endDate: '2025-07-20' },
+      { startDate: '2025-07-01', endDate: '2025-07-15' },
+      { startDate: '2025-07-16', endDate: '2025-07-31' },
+    ];
+
+    assert.deepEqual(coverPeriods(periods), { startDate: '2025-07-01', endDate: '2025-07-31' });
+  });
+
+  it('returns null without periods', () => {
+    assert.equal(coverPeriods([]), null);
+  });
+});
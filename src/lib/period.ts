@@ -0,0 +1,77 @@
+import { differenceInCalendarDays, eachDayOfInterval, format, isValid, parseISO } from 'date-fns';
+
+// Inclusive range of calendar dates, both as ISO `yyyy-MM-dd` strings.
+export interface ReportPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+// Longest period accepted; clock exports never cover more than two months.
+export const MAX_PERIOD_DAYS = 62;
+
+export function toIsoDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+export function parseIsoDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+export function validatePeriod(period: ReportPeriod): string | null {
+  const start = parseIsoDate(period.startDate);
+  const end = parseIsoDate(period.endDate);
+  if (!start) return `Start date "${period.startDate}" is not a valid yyyy-MM-dd date.`;
+  if (!end) return `End date "${period.endDate}" is not a valid yyyy-MM-dd date.`;
+  if (end < start) return `End date ${period.endDate} is before start date ${period.startDate}.`;
+  if (differenceInCalendarDays(end, start) + 1 > MAX_PERIOD_DAYS) return `The period cannot span more than ${MAX_PERIOD_DAYS} days.`;
+  return null;
+}
+
+// Overlap of two periods, or null when they do not share any day.
+export function intersectPeriods(a: ReportPeriod, b: ReportPeriod): ReportPeriod | null {
+  const startDate = a.startDate > b.startDate ? a.startDate : b.startDate;
+  const endDate = a.endDate < b.endDate ? a.endDate : b.endDate;
+  return startDate <= endDate ? { startDate, endDate } : null;
+}
+
+// Smallest period covering all of `periods`, or null when there are none.
+export function coverPeriods(periods: ReportPeriod[]): ReportPeriod | null {
+  if (periods.length === 0) return null;
+  return {
+    startDate: periods.map(p => p.startDate).sort()[0],
+    endDate: periods.map(p => p.endDate).sort()[periods.length - 1],
+  };
+}
+
+export function getPeriodDates(period: ReportPeriod): Date[] {
+  const start = parseIsoDate(period.startDate);
+  const end = parseIsoDate(period.endDate);
+  if (!start || !end || end < start) return [];
+  return eachDayOfInterval({ start, end });
+}
+
+const ISO_RANGE = /(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\s*(?:~|–|-|al?|to)\s*(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/i;
+const DMY_RANGE = /(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})\s*(?:~|–|-|al?|to)\s*(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/i;
+
+function buildIsoDate(year: string, month: string, day: string): string {
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// Finds a report range such as "2025-07-01 ~ 2025-07-31" or "01/07/2025 al 31/07/2025" in free text.
+export function parsePeriodText(text: string): ReportPeriod | null {
+  let period: ReportPeriod | null = null;
+
+  const iso = text.match(ISO_RANGE);
+  if (iso) {
+    period = { startDate: buildIsoDate(iso[1], iso[2], iso[3]), endDate: buildIsoDate(iso[4], iso[5], iso[6]) };
+  } else {
+    const dmy = text.match(DMY_RANGE);
+    if (dmy) {
+      period = { startDate: buildIsoDate(dmy[3], dmy[2], dmy[1]), endDate: buildIsoDate(dmy[6], dmy[5], dmy[4]) };
+    }
+  }
+
+  return period && validatePeriod(period) === null ? period : null;
+}
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigIssue, parseProcessConfig } from '@/lib/process-config';
+import { DEFAULT_REQUIRED_HOURS, DEFAULT_SCHEDULE_POLICY } from '@/lib/schedule-policy';
+
+const period = { sheetName: 'Reporte', startDate: '2025-07-01', endDate: '2025-07-31' };
+
+function issuesOf(input: unknown): ConfigIssue[] {
+  const result = parseProcessConfig(input);
+  return 'issues' in result ? result.issues : [];
+}
+
+describe('parseProcessConfig', () => {
+  it('fills an omitted policy with the defaults', () => {
+    const result = parseProcessConfig(period);
+
+    assert.ok('config' in result);
+    assert.equal(result.config.sheetName, 'Reporte');
+    assert.equal(result.config.startDate, '2025-07-01');
+    assert.deepEqual(result.config.policy, DEFAULT_SCHEDULE_POLICY);
+  });
+
+  it('fills the policy fields that are omitted', () => {
+    const result = parseProcessConfig({ ...period, policy: { graceMinutes: 10, requiredHours: { 6: 0 } } });
+
+    assert.ok('config' in result);
+    assert.equal(result.config.policy.graceMinutes, 10);
+    assert.equal(result.config.policy.requiredHours[6], 0);
+    assert.equal(result.config.policy.requiredHours[1], DEFAULT_REQUIRED_HOURS);
+    assert.deepEqual(result.config.policy.departmentOverrides, []);
+  });
+
+  it('reports missing and malformed fields by path', () => {
+    const paths = issuesOf({ startDate: '01/07/2025', endDate: '2025-07-31', policy: { graceMinutes: -1 } }).map(i => i.path);
+
+    assert.ok(paths.includes('sheetName'));
+    assert.ok(paths.includes('startDate'));
+    assert.ok(paths.includes('policy.graceMinutes'));
+  });
+
+  it('rejects hours outside a day', () => {
+    const issues = issuesOf({ ...period, policy: { requiredHours: { 1: 25 } } });
+
+    assert.deepEqual(issues.map(i => i.path), ['policy.requiredHours.1']);
+  });
+
+  it('validates the period', () => {
+    const reversed = issuesOf({ ...period, startDate: '2025-07-31', endDate: '2025-07-01' });
+    const tooLong = issuesOf({ ...period, endDate: '2025-09-30' });
+
+    assert.equal(reversed[0].path, 'endDate');
+    assert.match(reversed[0].message, /before start date/);
+    assert.match(tooLong[0].message, /cannot span more than/);
+  });
+
+  it('rejects input that is not an object', () => {
+    assert.ok(issuesOf('config').length > 0);
+    assert.ok(issuesOf(null).length > 0);
+  });
+});
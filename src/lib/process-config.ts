@@ -0,0 +1,126 @@
+import * as z from 'zod';
+import { ProcessConfig } from '@/lib/excel-processor';
+import { validatePeriod } from '@/lib/period';
+import { EMPTY_HOLIDAY_CALENDAR, HOLIDAY_PRESET_IDS, HolidayPresetId } from '@/lib/holidays';
+import { JUSTIFICATION_TYPES, JustificationType } from '@/lib/justifications';
+import {
+  DEFAULT_OVERTIME_POLICY,
+  DEFAULT_REQUIRED_HOURS,
+  DEFAULT_ROUNDING_POLICY,
+  DEFAULT_SCHEDULE_POLICY,
+  ROUNDING_MODES,
+  RoundingMode,
+} from '@/lib/schedule-policy';
+
+// Validates processing settings that arrive as JSON (API requests, config files) rather than from the form.
+// Omitted policy fields fall back to DEFAULT_SCHEDULE_POLICY.
+
+const hoursSchema = z.number().min(0).max(24);
+const graceMinutesSchema = z.number().int().min(0).max(240);
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a yyyy-MM-dd date.');
+const timeSchema = z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$/, 'Expected an HH:MM time.').nullable();
+const lateToleranceSchema = z.number().int().min(0).max(240);
+
+const requiredHoursSchema = z.object({
+  0: hoursSchema.default(DEFAULT_REQUIRED_HOURS),
+  1: hoursSchema.default(DEFAULT_REQUIRED_HOURS),
+  2: hoursSchema.default(DEFAULT_REQUIRED_HOURS),
+  3: hoursSchema.default(DEFAULT_REQUIRED_HOURS),
+  4: hoursSchema.default(DEFAULT_REQUIRED_HOURS),
+  5: hoursSchema.default(DEFAULT_REQUIRED_HOURS),
+  6: hoursSchema.default(DEFAULT_REQUIRED_HOURS),
+});
+
+const departmentOverrideSchema = z.object({
+  department: z.string().trim().min(1),
+  requiredHours: z.object({
+    0: hoursSchema.optional(),
+    1: hoursSchema.optional(),
+    2: hoursSchema.optional(),
+    3: hoursSchema.optional(),
+    4: hoursSchema.optional(),
+    5: hoursSchema.optional(),
+    6: hoursSchema.optional(),
+  }).optional(),
+  graceMinutes: graceMinutesSchema.optional(),
+  overnight: z.boolean().optional(),
+  startTime: timeSchema.optional(),
+  endTime: timeSchema.optional(),
+  lateToleranceMinutes: lateToleranceSchema.optional(),
+});
+
+const overtimePolicySchema = z.object({
+  weeklyHours: z.number().min(0).max(168).default(DEFAULT_OVERTIME_POLICY.weeklyHours),
+  doubleHoursPerDay: hoursSchema.default(DEFAULT_OVERTIME_POLICY.doubleHoursPerDay),
+  doubleHoursPerWeek: z.number().min(0).max(168).default(DEFAULT_OVERTIME_POLICY.doubleHoursPerWeek),
+});
+
+const roundingRuleSchema = z.object({
+  mode: z.enum(ROUNDING_MODES as [RoundingMode, ...RoundingMode[]]).default('none'),
+  intervalMinutes: z.number().int().min(1).max(60).default(DEFAULT_ROUNDING_POLICY.entry.intervalMinutes),
+  graceMinutes: z.number().int().min(0).max(59).default(0),
+});
+
+export const schedulePolicySchema = z.object({
+  requiredHours: requiredHoursSchema.default(DEFAULT_SCHEDULE_POLICY.requiredHours),
+  graceMinutes: graceMinutesSchema.default(DEFAULT_SCHEDULE_POLICY.graceMinutes),
+  overnight: z.boolean().default(DEFAULT_SCHEDULE_POLICY.overnight),
+  startTime: timeSchema.default(DEFAULT_SCHEDULE_POLICY.startTime),
+  endTime: timeSchema.default(DEFAULT_SCHEDULE_POLICY.endTime),
+  lateToleranceMinutes: lateToleranceSchema.default(DEFAULT_SCHEDULE_POLICY.lateToleranceMinutes),
+  departmentOverrides: z.array(departmentOverrideSchema).default([]),
+  shiftAware: z.boolean().default(DEFAULT_SCHEDULE_POLICY.shiftAware),
+  lateArrivalsPerAbsence: z.number().int().min(0).max(31).default(DEFAULT_SCHEDULE_POLICY.lateArrivalsPerAbsence),
+  overtime: overtimePolicySchema.default(DEFAULT_OVERTIME_POLICY),
+  rounding: z.object({
+    entry: roundingRuleSchema.default(DEFAULT_ROUNDING_POLICY.entry),
+    exit: roundingRuleSchema.default(DEFAULT_ROUNDING_POLICY.exit),
+  }).default(DEFAULT_ROUNDING_POLICY),
+});
+
+export const holidayCalendarSchema = z.object({
+  presets: z.array(z.enum(HOLIDAY_PRESET_IDS as [HolidayPresetId, ...HolidayPresetId[]])).default([]),
+  customDays: z.array(z.object({ date: isoDateSchema, name: z.string().trim().default('') })).default([]),
+});
+
+export const extractionConfigSchema = z.object({
+  startDate: isoDateSchema,
+  endDate: isoDateSchema,
+  policy: schedulePolicySchema.default(DEFAULT_SCHEDULE_POLICY),
+  holidays: holidayCalendarSchema.default(EMPTY_HOLIDAY_CALENDAR),
+}).superRefine((config, ctx) => {
+  const error = validatePeriod(config);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: error });
+  }
+});
+
+// Justifications sent along with a request or a CLI run; `id` is only informative there.
+export const justificationsSchema = z.array(z.object({
+  id: z.string().default(''),
+  employeeId: z.string().trim().min(1),
+  type: z.enum(JUSTIFICATION_TYPES as [JustificationType, ...JustificationType[]]),
+  startDate: isoDateSchema,
+  endDate: isoDateSchema,
+  note: z.string().default(''),
+  approvedBy: z.string().default(''),
+}).refine(j => j.startDate <= j.endDate, { message: 'endDate is before startDate.', path: ['endDate'] }));
+
+export const processConfigSchema = z.object({
+  sheetName: z.string().min(1),
+}).and(extractionConfigSchema);
+
+export interface ConfigIssue {
+  // Dot-separated path of the offending field, e.g. "policy.graceMinutes".
+  path: string;
+  message: string;
+}
+
+export function toConfigIssues(error: z.ZodError): ConfigIssue[] {
+  return error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+export function parseProcessConfig(input: unknown): { config: ProcessConfig } | { issues: ConfigIssue[] } {
+  const result = processConfigSchema.safeParse(input);
+  return result.success ? { config: result.data } : { issues: toConfigIssues(result.error) };
+}
@@ -0,0 +1,189 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AttendanceStatus, EmployeeAttendance, evaluateDay, summarizeDays } from '@/lib/attendance';
+import { applyPunchCorrection, validateCorrectedPunches } from '@/lib/punch-corrections';
+import { pairPunches, parsePunches } from '@/lib/punches';
+import { DEFAULT_SCHEDULE_POLICY, SchedulePolicy } from '@/lib/schedule-policy';
+
+const policy = DEFAULT_SCHEDULE_POLICY;
+const correctedAt = new Date('2025-07-10T15:30:00.000Z');
+
+function buildRecord(cells: Record<string, string>, holidays: Record<string, string> = {}): EmployeeAttendance {
+  const days = Object.entries(cells).map(([date, cell]) =>
+    evaluateDay(date, cell, pairPunches(parsePunches(cell)), policy, 'Sistemas', { holiday: holidays[date] }));
+  return {
+    employee: { id: '7', name: 'Ana López', department: 'Sistemas' },
+    days,
+    summary: summarizeDays(days, policy),
+    sources: [{ fileName: 'julio.xlsx', sheetName: 'Reporte' }],
+  };
+}
+
+describe('validateCorrectedPunches', () => {
+  it('accepts punches in order', () => {
+    assert.equal(validateCorrectedPunches([{ time: '08:00' }, { time: '16:00' }]), null);
+  });
+
+  it('accepts a day without punches', () => {
+    assert.equal(validateCorrectedPunches([]), null);
+  });
+
+  it('places next-day exits after midnight', () => {
+    assert.equal(validateCorrectedPunches([{ time: '22:00' }, { time: '06:00', nextDay: true }]), null);
+  });
+
+  it('rejects invalid times', () => {
+    assert.match(validateCorrectedPunches([{ time: '25:00' }]) ?? '', /not a valid HH:MM time/);
+    assert.match(validateCorrectedPunches([{ time: '' }]) ?? '', /not a valid HH:MM time/);
+  });
+
+  it('rejects punches out of order or repeated', () => {
+    assert.notEqual(validateCorrectedPunches([{ time: '10:00' }, { time: '09:00' }]), null);
+    assert.notEqual(validateCorrectedPunches([{ time: '09:00' }, { time: '09:00' }]), null);
+    assert.notEqual(validateCorrectedPunches([{ time: '06:00', nextDay: true }, { time: '22:00' }]), null);
+  });
+});
+
+describe('applyPunchCorrection', () => {
+  it('recomputes the day and the summary and logs the change', () => {
+    const record = buildRecord({ '2025-07-07': '08:00', '2025-07-08': '08:00 16:00' });
+
+    const corrected = applyPunchCorrection(record, '2025-07-07', {
+      punches: [{ time: '08:00' }, { time: '16:00' }],
+      reason: '  Olvidó checar la salida. ',
+      correctedBy: { uid: 'u1', email: 'rh@example.com' },
+      correctedAt,
+    }, policy);
+
+    const day = corrected.days[0];
+    assert.equal(day.hours, 8);
+    assert.equal(day.status, AttendanceStatus.Complete);
+    assert.equal(day.rawValue, '08:00');
+    assert.equal(corrected.days[1], record.days[1]);
+    assert.equal(corrected.summary.totalHours, 16);
+    assert.equal(corrected.summary.compliantDays, 2);
+    assert.deepEqual(corrected.corrections, [{
+      date: '2025-07-07',
+      previousPunches: ['08:00'],
+      newPunches: ['08:00', '16:00'],
+      reason: 'Olvidó checar la salida.',
+      correctedBy: { uid: 'u1', email: 'rh@example.com' },
+      correctedAt: '2025-07-10T15:30:00.000Z',
+    }]);
+  });
+
+  it('does not change the original record', () => {
+    const record = buildRecord({ '2025-07-07': '08:00' });
+
+    applyPunchCorrection(record, '2025-07-07', { punches: [{ time: '08:00' }, { time: '16:00' }], reason: 'Salida', correctedBy: null }, policy);
+
+    assert.equal(record.days[0].status, AttendanceStatus.Incomplete);
+    assert.equal(record.corrections, undefined);
+  });
+
+  it('keeps earlier corrections', () => {
+    const request = { punches: [{ time: '08:00' }, { time: '16:00' }], reason: 'Salida', correctedBy: null, correctedAt };
+    const once = applyPunchCorrection(buildRecord({ '2025-07-07': '08:00' }), '2025-07-07', request, policy);
+    const twice = applyPunchCorrection(once, '2025-07-07', { ...request, punches: [{ time: '07:30' }, { time: '16:00' }] }, policy);
+
+    assert.equal(twice.corrections?.length, 2);
+    assert.deepEqual(twice.corrections?.[1].previousPunches, ['08:00', '16:00']);
+    assert.equal(twice.days[0].hours, 8.5);
+  });
+
+  it('credits a next-day exit to the corrected day', () => {
+    const record = buildRecord({ '2025-07-07': '22:00', '2025-07-08': '' });
+
+    const corrected = applyPunchCorrection(record, '2025-07-07', {
+      punches: [{ time: '22:00' }, { time: '06:00', nextDay: true }],
+      reason: 'Turno nocturno',
+      correctedBy: null,
+    }, policy);
+
+    assert.equal(corrected.days[0].hours, 8);
+    assert.deepEqual(corrected.corrections?.[0].newPunches, ['22:00', '06:00 (+1)']);
+    assert.deepEqual(corrected.days[1].punches, []);
+  });
+
+  it('takes a new next-day exit off the following day', () => {
+    const record = buildRecord({ '2025-07-07': '22:00', '2025-07-08': '06:00 14:00 22:00' });
+
+    const corrected = applyPunchCorrection(record, '2025-07-07', {
+      punches: [{ time: '22:00' }, { time: '06:00', nextDay: true }],
+      reason: 'Turno nocturno',
+      correctedBy: null,
+      correctedAt,
+    }, policy);
+
+    assert.deepEqual(corrected.days[1].punches.map(p => p.time), ['14:00', '22:00']);
+    assert.equal(corrected.days[1].hours, 8);
+    assert.equal(corrected.summary.totalHours, 16);
+    assert.deepEqual(corrected.corrections?.map(c => [c.date, c.newPunches]), [
+      ['2025-07-07', ['22:00', '06:00 (+1)']],
+      ['2025-07-08', ['14:00', '22:00']],
+    ]);
+  });
+
+  it('leaves the following day alone when the exit was already taken from it', () => {
+    const record = buildRecord({ '2025-07-07': '22:00', '2025-07-08': '06:00 14:00' });
+    const request = { reason: 'Turno nocturno', correctedBy: null, correctedAt };
+    const night = applyPunchCorrection(record, '2025-07-07', { ...request, punches: [{ time: '22:00' }, { time: '06:00', nextDay: true }] }, policy);
+
+    const changed = applyPunchCorrection(night, '2025-07-07', { ...request, punches: [{ time: '21:30' }, { time: '06:00', nextDay: true }] }, policy);
+
+    assert.deepEqual(changed.days[1], night.days[1]);
+    assert.equal(changed.corrections?.length, 3);
+  });
+
+  it('keeps the justification of a day worked in full', () => {
+    const justification = { id: 'j1', type: 'permiso' as const, note: '', approvedBy: '' };
+    const day = evaluateDay('2025-07-07', '08:00 16:00', pairPunches(parsePunches('08:00 16:00')), policy, 'Sistemas', { justification });
+    const record: EmployeeAttendance = { ...buildRecord({}), days: [day], summary: summarizeDays([day], policy) };
+
+    const corrected = applyPunchCorrection(record, '2025-07-07', { punches: [{ time: '08:00' }, { time: '12:00' }], reason: 'Salió temprano', correctedBy: null }, policy);
+
+    assert.equal(corrected.days[0].status, AttendanceStatus.Justified);
+    assert.equal(corrected.summary.justifiedDays, 1);
+  });
+
+  it('rounds the new punches with the policy', () => {
+    const rounding: SchedulePolicy = {
+      ...policy,
+      rounding: {
+        entry: { mode: 'up', intervalMinutes: 15, graceMinutes: 0 },
+        exit: { mode: 'none', intervalMinutes: 15, graceMinutes: 0 },
+      },
+    };
+
+    const corrected = applyPunchCorrection(buildRecord({ '2025-07-07': '' }), '2025-07-07', {
+      punches: [{ time: '08:07' }, { time: '16:30' }],
+      reason: 'Sin checadas',
+      correctedBy: null,
+    }, rounding);
+
+    assert.equal(corrected.days[0].punches[0].roundedTime, '08:15');
+    assert.equal(corrected.days[0].hours, 8.25);
+  });
+
+  it('keeps the holiday of the day', () => {
+    const record = buildRecord({ '2025-09-16': '' }, { '2025-09-16': 'Día de la Independencia' });
+
+    const corrected = applyPunchCorrection(record, '2025-09-16', {
+      punches: [{ time: '09:00' }, { time: '13:00' }],
+      reason: 'Guardia',
+      correctedBy: null,
+    }, policy);
+
+    assert.equal(corrected.days[0].nonWorking, 'Día de la Independencia');
+    assert.equal(corrected.days[0].hours, 4);
+  });
+
+  it('rejects invalid punches, a missing reason and dates outside the period', () => {
+    const record = buildRecord({ '2025-07-07': '08:00' });
+    const request = { punches: [{ time: '08:00' }, { time: '16:00' }], reason: 'Salida', correctedBy: null };
+
+    assert.throws(() => applyPunchCorrection(record, '2025-07-07', { ...request, punches: [{ time: '8' }] }, policy), /not a valid HH:MM time/);
+    assert.throws(() => applyPunchCorrection(record, '2025-07-07', { ...request, reason: '  ' }, policy), /needs a reason/);
+    assert.throws(() => applyPunchCorrection(record, '2025-08-01', request, policy), /not in the employee's period/);
+  });
+});
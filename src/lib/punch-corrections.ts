@@ -0,0 +1,173 @@
+import { addDays } from 'date-fns';
+import { DayAttendance, EmployeeAttendance, REST_DAY_LABEL, evaluateDay, summarizeDays } from '@/lib/attendance';
+import { Punch, formatMinutes, pairPunches, roundDayPunches } from '@/lib/punches';
+import { parseIsoDate, toIsoDate } from '@/lib/period';
+import { SchedulePolicy, parseTime } from '@/lib/schedule-policy';
+
+// Punches entered by hand for a day, e.g. when an employee forgot to clock out. Each change is kept on the record
+// with who made it and why, and the exports list them as a corrections log.
+
+export interface CorrectedPunch {
+  // HH:MM
+  time: string;
+  // An exit after midnight that closes the day's shift.
+  nextDay?: boolean;
+}
+
+export interface CorrectionAuthor {
+  uid: string;
+  email: string | null;
+}
+
+export interface PunchCorrection {
+  // ISO yyyy-MM-dd date of the corrected day.
+  date: string;
+  // Punches as shown before and after the change, one "HH:MM" (or "HH:MM (+1)") per punch.
+  previousPunches: string[];
+  newPunches: string[];
+  reason: string;
+  correctedBy: CorrectionAuthor | null;
+  // ISO timestamp.
+  correctedAt: string;
+}
+
+export interface CorrectionRequest {
+  punches: CorrectedPunch[];
+  reason: string;
+  correctedBy: CorrectionAuthor | null;
+  correctedAt?: Date;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Clocked times, without rounding.
+function listPunches(punches: Punch[]): string[] {
+  return punches.map(p => (p.nextDay ? `${p.time} (+1)` : p.time));
+}
+
+// Returns null when every punch is a valid HH:MM time and they are in order once next-day exits are placed after
+// midnight; otherwise the problem.
+export function validateCorrectedPunches(punches: CorrectedPunch[]): string | null {
+  let previous = -1;
+  for (const punch of punches) {
+    const minutes = parseTime(punch.time);
+    if (minutes === null) return `"${punch.time}" is not a valid HH:MM time.`;
+    const absolute = minutes + (punch.nextDay ? MINUTES_PER_DAY : 0);
+    if (absolute <= previous) return 'Punches must be in order and not repeat.';
+    previous = absolute;
+  }
+  return null;
+}
+
+// Pairs, rounds and evaluates `punches` as the day's new punches, keeping its holiday, justification and the
+// employee's own shift.
+function reevaluateDay(record: EmployeeAttendance, day: DayAttendance, punches: Punch[], policy: SchedulePolicy): DayAttendance {
+  // Drop earlier rounding: a punch may change from exit to entry once the day's punches change.
+  const clocked = punches.map(({ time, minutes, nextDay }): Punch => (nextDay ? { time, minutes, nextDay } : { time, minutes }));
+  const paired = pairPunches(clocked);
+  // Policies saved before rounding existed have no `rounding`.
+  const dayPunches = policy.rounding ? roundDayPunches(paired, policy.rounding) : paired;
+  return evaluateDay(day.date, day.rawValue, dayPunches, policy, record.employee.department, {
+    holiday: day.nonWorking && day.nonWorking !== REST_DAY_LABEL ? day.nonWorking : undefined,
+    justification: day.justification,
+    shift: record.employee.schedule,
+  });
+}
+
+/**
+ * Replaces the punches of `date` and recomputes the day and the summary with the same pairing, rounding and
+ * evaluation as the processor. A new next-day exit is credited to this day and taken off the following day, which is
+ * recomputed and logged as corrected too, so the punch is not counted twice.
+ */
+export function applyPunchCorrection(
+  record: EmployeeAttendance,
+  date: string,
+  request: CorrectionRequest,
+  policy: SchedulePolicy,
+): EmployeeAttendance {
+  const validationError = validateCorrectedPunches(request.punches);
+  if (validationError) throw new Error(validationError);
+  const reason = request.reason.trim();
+  if (!reason) throw new Error('A correction needs a reason.');
+
+  const index = record.days.findIndex(d => d.date === date);
+  if (index === -1) throw new Error(`${date} is not in the employee's period.`);
+  const day = record.days[index];
+
+  const punches: Punch[] = request.punches.map(p => {
+    const minutes = parseTime(p.time)!;
+    const punch: Punch = { time: formatMinutes(minutes), minutes };
+    return p.nextDay ? { ...punch, nextDay: true } : punch;
+  });
+
+  const correctedAt = (request.correctedAt ?? new Date()).toISOString();
+  const logChange = (changed: DayAttendance, newPunches: Punch[]): PunchCorrection => ({
+    date: changed.date,
+    previousPunches: listPunches(changed.punches),
+    newPunches: listPunches(newPunches),
+    reason,
+    correctedBy: request.correctedBy,
+    correctedAt,
+  });
+
+  const days = record.days.slice();
+  days[index] = reevaluateDay(record, day, punches, policy);
+  const corrections = [logChange(day, punches)];
+
+  // Exits the day already took from the following day's column were removed from it when the sheet was processed.
+  const carried = punches.filter(p => p.nextDay && !day.punches.some(d => d.nextDay && d.minutes === p.minutes));
+  const next = record.days.find(d => d.date === toIsoDate(addDays(parseIsoDate(date)!, 1)));
+  if (next && carried.length > 0) {
+    const remaining = next.punches.filter(p => p.nextDay || !carried.some(c => c.minutes === p.minutes));
+    if (remaining.length < next.punches.length) {
+      days[days.indexOf(next)] = reevaluateDay(record, next, remaining, policy);
+      corrections.push(logChange(next, remaining));
+    }
+  }
+
+  return {
+    ...record,
+    days,
+    summary: summarizeDays(days, policy),
+    corrections: [...(record.corrections ?? []), ...corrections],
+  };
+}
+
+export function isDayCorrected(record: EmployeeAttendance, date: string): boolean {
+  return (record.corrections ?? []).some(c => c.date === date);
+}
+
+export const CORRECTION_LOG_HEADERS = [
+  'ID',
+  'Nombre',
+  'Departamento',
+  'Fecha',
+  'Checadas Anteriores',
+  'Checadas Nuevas',
+  'Motivo',
+  'Corregido por',
+  'Fecha de Corrección',
+];
+
+export function formatCorrectionAuthor(correction: PunchCorrection): string {
+  return correction.correctedBy?.email ?? correction.correctedBy?.uid ?? '';
+}
+
+// One row per correction, oldest first within each employee; punches are separated by commas.
+export function buildCorrectionLog(records: EmployeeAttendance[]): string[][] {
+  return records.flatMap(record => (record.corrections ?? []).map(c => [
+    record.employee.id,
+    record.employee.name,
+    record.employee.department,
+    c.date,
+    c.previousPunches.join(', '),
+    c.newPunches.join(', '),
+    c.reason,
+    formatCorrectionAuthor(c),
+    c.correctedAt,
+  ]));
+}
+
+export function hasCorrections(records: EmployeeAttendance[]): boolean {
+  return records.some(r => (r.corrections?.length ?? 0) > 0);
+}
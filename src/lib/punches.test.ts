@@ -0,0 +1,143 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { pairPunches, pairShiftPunches, parsePunches, roundDayPunches } from '@/lib/punches';
+import { DEFAULT_ROUNDING_POLICY, RoundingPolicy } from '@/lib/schedule-policy';
+
+const never = () => false;
+const always = () => true;
+
+describe('parsePunches', () => {
+  it('reads every HH:MM time in the cell, sorted and without repeats', () => {
+    assert.deepEqual(parsePunches('12:01\n8:05 08:05 17:30').map(p => p.time), ['08:05', '12:01', '17:30']);
+  });
+
+  it('reads cells formatted as time', () => {
+    assert.deepEqual(parsePunches(0.5), [{ time: '12:00', minutes: 720 }]);
+  });
+
+  it('skips invalid times and empty cells', () => {
+    assert.deepEqual(parsePunches('25:00 08:61'), []);
+    assert.deepEqual(parsePunches(''), []);
+    assert.deepEqual(parsePunches(null), []);
+  });
+});
+
+describe('pairPunches', () => {
+  it('pairs punches in order as entry and exit and measures the breaks between pairs', () => {
+    const day = pairPunches(parsePunches('08:00 12:00 13:00 17:15'));
+
+    assert.deepEqual(day.pairs.map(p => [p.in.time, p.out.time, p.minutes]), [['08:00', '12:00', 240], ['13:00', '17:15', 255]]);
+    assert.deepEqual(day.unpaired, []);
+    assert.equal(day.workedMinutes, 495);
+    assert.equal(day.breakMinutes, 60);
+  });
+
+  it('leaves the last punch of an odd count unpaired', () => {
+    const day = pairPunches(parsePunches('08:00 12:00 13:00'));
+
+    assert.equal(day.pairs.length, 1);
+    assert.equal(day.unpaired[0].time, '13:00');
+    assert.equal(day.workedMinutes, 240);
+  });
+
+  it('returns an empty day without punches', () => {
+    const day = pairPunches([]);
+
+    assert.deepEqual(day.pairs, []);
+    assert.equal(day.workedMinutes, 0);
+    assert.equal(day.breakMinutes, 0);
+  });
+});
+
+describe('pairShiftPunches', () => {
+  it('closes an entry left open at night with the first punch of the next day', () => {
+    const [night, morning] = pairShiftPunches([parsePunches('22:00'), parsePunches('06:00')], never);
+
+    assert.equal(night.pairs.length, 1);
+    assert.equal(night.pairs[0].out.time, '06:00');
+    assert.equal(night.pairs[0].out.nextDay, true);
+    assert.equal(night.workedMinutes, 8 * 60);
+    assert.deepEqual(night.unpaired, []);
+    assert.deepEqual(morning.punches, []);
+  });
+
+  it('leaves days with paired punches as they are', () => {
+    const [first, second] = pairShiftPunches([parsePunches('08:00 16:00'), parsePunches('08:00 16:00')], always);
+
+    assert.equal(first.workedMinutes, 8 * 60);
+    assert.equal(second.workedMinutes, 8 * 60);
+    assert.equal(second.punches.length, 2);
+  });
+
+  it('does not carry over shifts too long to be a night shift', () => {
+    const [first, second] = pairShiftPunches([parsePunches('08:00'), parsePunches('09:00')], never);
+
+    assert.equal(first.unpaired[0].time, '08:00');
+    assert.equal(second.unpaired[0].time, '09:00');
+  });
+
+  it('carries over shifts of up to a day on overnight schedules', () => {
+    const [first, second] = pairShiftPunches([parsePunches('10:00'), parsePunches('09:00')], index => index === 0);
+
+    assert.equal(first.workedMinutes, 23 * 60);
+    assert.deepEqual(second.punches, []);
+  });
+
+  it('leaves an open entry on the last day unpaired', () => {
+    const [last] = pairShiftPunches([parsePunches('22:00')], always);
+
+    assert.deepEqual(last.pairs, []);
+    assert.equal(last.unpaired[0].time, '22:00');
+  });
+});
+
+describe('roundDayPunches', () => {
+  const quarterHours: RoundingPolicy = {
+    entry: { mode: 'up', intervalMinutes: 15, graceMinutes: 0 },
+    exit: { mode: 'down', intervalMinutes: 15, graceMinutes: 0 },
+  };
+
+  it('returns the day untouched when rounding is off', () => {
+    const day = pairPunches(parsePunches('08:07 17:08'));
+
+    assert.equal(roundDayPunches(day, DEFAULT_ROUNDING_POLICY), day);
+  });
+
+  it('rounds entries and exits separately and keeps the clocked times', () => {
+    const day = roundDayPunches(pairPunches(parsePunches('08:07 17:08')), quarterHours);
+
+    assert.equal(day.punches[0].time, '08:07');
+    assert.equal(day.punches[0].roundedTime, '08:15');
+    assert.equal(day.punches[1].roundedTime, '17:00');
+    assert.equal(day.workedMinutes, 8 * 60 + 45);
+    assert.equal(day.rawWorkedMinutes, 9 * 60 + 1);
+  });
+
+  it('does not round punches already on the interval', () => {
+    const day = roundDayPunches(pairPunches(parsePunches('08:00 17:00')), quarterHours);
+
+    assert.equal(day.punches[0].roundedTime, undefined);
+    assert.equal(day.punches[1].roundedTime, undefined);
+    assert.equal(day.workedMinutes, 9 * 60);
+  });
+
+  it('rounds entries within the grace period down to the interval', () => {
+    const rounding: RoundingPolicy = { ...quarterHours, entry: { mode: 'up', intervalMinutes: 15, graceMinutes: 5 } };
+    const day = roundDayPunches(pairPunches(parsePunches('08:04 16:00')), rounding);
+
+    assert.equal(day.punches[0].roundedTime, '08:00');
+    assert.equal(day.workedMinutes, 8 * 60);
+  });
+
+  it('rounds the unpaired punch of an incomplete day as an entry', () => {
+    const day = roundDayPunches(pairPunches(parsePunches('08:00 12:00 13:02')), quarterHours);
+
+    assert.equal(day.unpaired[0].roundedTime, '13:15');
+  });
+
+  it('recomputes the break between rounded pairs', () => {
+    const day = roundDayPunches(pairPunches(parsePunches('08:00 13:05 14:05 17:00')), quarterHours);
+
+    assert.equal(day.breakMinutes, 75);
+  });
+});
@@ -0,0 +1,170 @@
+import { RoundingPolicy, RoundingRule } from '@/lib/schedule-policy';
+
+export interface Punch {
+  // Time as HH:MM, normalized from whatever the clock wrote in the cell.
+  time: string;
+  // Minutes since midnight.
+  minutes: number;
+  // Set on an exit read from the following day's column to close an overnight shift.
+  nextDay?: boolean;
+  // Only set when the policy's rounding changed the punch; hours are computed from these.
+  roundedTime?: string;
+  roundedMinutes?: number;
+}
+
+export interface PunchPair {
+  in: Punch;
+  out: Punch;
+  minutes: number;
+}
+
+export interface DayPunches {
+  punches: Punch[];
+  pairs: PunchPair[];
+  unpaired: Punch[];
+  workedMinutes: number;
+  breakMinutes: number;
+  // Worked minutes from the punches as clocked, before rounding.
+  rawWorkedMinutes: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Longest shift that is paired across midnight without an explicit overnight schedule.
+const MAX_AUTO_OVERNIGHT_MINUTES = 14 * 60;
+
+export function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+function toPunch(minutes: number): Punch {
+  return { time: formatMinutes(minutes), minutes };
+}
+
+// Minutes the punch counts for: rounded when the policy rounded it.
+export function effectiveMinutes(punch: Punch): number {
+  return punch.roundedMinutes ?? punch.minutes;
+}
+
+export function parsePunches(value: unknown): Punch[] {
+  if (value === null || value === undefined || value === '') return [];
+
+  // Cells formatted as time come through as a fraction of a day.
+  if (typeof value === 'number') {
+    if (value < 0 || value >= 1) return [];
+    return [toPunch(Math.round(value * MINUTES_PER_DAY) % MINUTES_PER_DAY)];
+  }
+
+  const punches: Punch[] = [];
+  const timeRegex = /(\d{1,2}):(\d{2})/g;
+  let match: RegExpExecArray | null;
+  while ((match = timeRegex.exec(String(value))) !== null) {
+    const h = parseInt(match[1], 10);
+    const m = parseInt(match[2], 10);
+    if (h < 24 && m < 60) {
+      punches.push(toPunch(h * 60 + m));
+    }
+  }
+
+  punches.sort((a, b) => a.minutes - b.minutes);
+
+  // Clocks often record the same punch twice when the badge is held too long.
+  return punches.filter((p, i) => i === 0 || p.minutes !== punches[i - 1].minutes);
+}
+
+function pairDuration(entry: Punch, exit: Punch, minutesOf: (punch: Punch) => number = effectiveMinutes): number {
+  return exit.nextDay ? MINUTES_PER_DAY - minutesOf(entry) + minutesOf(exit) : minutesOf(exit) - minutesOf(entry);
+}
+
+export function pairPunches(punches: Punch[]): DayPunches {
+  const pairs: PunchPair[] = [];
+  for (let i = 0; i + 1 < punches.length; i += 2) {
+    pairs.push({ in: punches[i], out: punches[i + 1], minutes: pairDuration(punches[i], punches[i + 1]) });
+  }
+
+  const unpaired = punches.length % 2 === 1 ? [punches[punches.length - 1]] : [];
+  const workedMinutes = pairs.reduce((sum, p) => sum + p.minutes, 0);
+  const rawWorkedMinutes = pairs.reduce((sum, p) => sum + pairDuration(p.in, p.out, punch => punch.minutes), 0);
+
+  let breakMinutes = 0;
+  for (let i = 1; i < pairs.length; i++) {
+    breakMinutes += effectiveMinutes(pairs[i].in) - (effectiveMinutes(pairs[i - 1].in) + pairs[i - 1].minutes);
+  }
+
+  return { punches, pairs, unpaired, workedMinutes, breakMinutes, rawWorkedMinutes };
+}
+
+export function roundMinutes(minutes: number, rule: RoundingRule, role: 'entry' | 'exit'): number {
+  if (rule.mode === 'none' || rule.intervalMinutes <= 0) return minutes;
+
+  const below = Math.floor(minutes / rule.intervalMinutes) * rule.intervalMinutes;
+  const above = Math.ceil(minutes / rule.intervalMinutes) * rule.intervalMinutes;
+  if (role === 'entry' && minutes - below <= rule.graceMinutes) return below;
+  if (role === 'exit' && above - minutes <= rule.graceMinutes) return above;
+
+  switch (rule.mode) {
+    case 'up':
+      return above;
+    case 'down':
+      return below;
+    case 'nearest':
+      return minutes - below < above - minutes ? below : above;
+  }
+}
+
+function roundPunch(punch: Punch, rule: RoundingRule, role: 'entry' | 'exit'): Punch {
+  const rounded = roundMinutes(punch.minutes, rule, role);
+  return rounded === punch.minutes ? punch : { ...punch, roundedTime: formatMinutes(rounded), roundedMinutes: rounded };
+}
+
+/**
+ * Rounds the entries and exits of an already paired day and recomputes its worked and break minutes. The unpaired
+ * punch of an incomplete day is an entry. Punches keep their clocked time next to the rounded one.
+ */
+export function roundDayPunches(day: DayPunches, rounding: RoundingPolicy): DayPunches {
+  if (rounding.entry.mode === 'none' && rounding.exit.mode === 'none') return day;
+
+  const punches = [
+    ...day.pairs.flatMap(p => [roundPunch(p.in, rounding.entry, 'entry'), roundPunch(p.out, rounding.exit, 'exit')]),
+    ...day.unpaired.map(p => roundPunch(p, rounding.entry, 'entry')),
+  ];
+  return pairPunches(punches);
+}
+
+/**
+ * Pairs the punches of consecutive calendar days, letting an entry left open at the end of one day
+ * be closed by the first punch of the next day's column. The resulting pair is credited to the day
+ * the shift started on. `isOvernight` marks days whose schedule is known to cross midnight; other
+ * days only carry over when the resulting shift is short enough to be a plausible night shift.
+ */
+export function pairShiftPunches(days: Punch[][], isOvernight: (dayIndex: number) => boolean): DayPunches[] {
+  const remaining = days.map(punches => punches.slice());
+  const result: DayPunches[] = [];
+
+  for (let i = 0; i < remaining.length; i++) {
+    const own = remaining[i];
+    const next = remaining[i + 1];
+
+    if (own.length % 2 === 1 && next && next.length > 0) {
+      const entry = own[own.length - 1];
+      const exit: Punch = { ...next[0], nextDay: true };
+      const duration = pairDuration(entry, exit);
+      const limit = isOvernight(i) ? MINUTES_PER_DAY : MAX_AUTO_OVERNIGHT_MINUTES;
+
+      if (duration > 0 && duration < limit) {
+        next.shift();
+        own.push(exit);
+      }
+    }
+
+    result.push(pairPunches(own));
+  }
+
+  return result;
+}
+
+export function minutesToHours(minutes: number): number {
+  return parseFloat((minutes / 60).toFixed(2));
+}
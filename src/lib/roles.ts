@@ -0,0 +1,73 @@
+import { EmployeeAttendance } from '@/lib/attendance';
+import { normalizeDepartment } from '@/lib/schedule-policy';
+
+export type UserRole = 'admin' | 'hr_analyst' | 'department_head';
+
+export const USER_ROLES: UserRole[] = ['admin', 'hr_analyst', 'department_head'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrador',
+  hr_analyst: 'Analista de RH',
+  department_head: 'Jefe de Departamento',
+};
+
+// Stored in `users/{uid}`. A user who signed in but has no role yet cannot see any data.
+export interface UserProfile {
+  uid: string;
+  email: string | null;
+  role: UserRole | null;
+  // Departments a department head is assigned to, as printed in the clock export.
+  departments: string[];
+  // normalizeDepartment() of each entry of `departments`; the Firestore rules compare against these.
+  departmentKeys: string[];
+}
+
+export function hasRole(profile: UserProfile | null): profile is UserProfile & { role: UserRole } {
+  return Boolean(profile?.role);
+}
+
+export function canSeeAllDepartments(profile: UserProfile | null): boolean {
+  return profile?.role === 'admin' || profile?.role === 'hr_analyst';
+}
+
+export function canManageRuns(profile: UserProfile | null): boolean {
+  return canSeeAllDepartments(profile);
+}
+
+export function canManageDirectory(profile: UserProfile | null): boolean {
+  return canSeeAllDepartments(profile);
+}
+
+export function canManageJustifications(profile: UserProfile | null): boolean {
+  return canSeeAllDepartments(profile);
+}
+
+// Editing the punches of processed records, see punch-corrections.ts.
+export function canCorrectPunches(profile: UserProfile | null): boolean {
+  return canSeeAllDepartments(profile);
+}
+
+// Company-wide settings such as the holiday calendar.
+export function canManageSettings(profile: UserProfile | null): boolean {
+  return canSeeAllDepartments(profile);
+}
+
+export function canManageUsers(profile: UserProfile | null): boolean {
+  return profile?.role === 'admin';
+}
+
+export function getDepartmentKeys(departments: string[]): string[] {
+  return Array.from(new Set(departments.map(normalizeDepartment).filter(Boolean)));
+}
+
+/**
+ * Keeps the records the user may see: everything for admins and HR analysts, only the assigned departments for
+ * department heads, and nothing for users without a role.
+ */
+export function filterRecordsForUser(records: EmployeeAttendance[], profile: UserProfile | null): EmployeeAttendance[] {
+  if (canSeeAllDepartments(profile)) return records;
+  if (profile?.role !== 'department_head') return [];
+
+  const allowed = new Set(profile.departmentKeys);
+  return records.filter(record => allowed.has(normalizeDepartment(record.employee.department)));
+}
@@ -0,0 +1,177 @@
+import {
+  DocumentData,
+  QueryDocumentSnapshot,
+  Timestamp,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { EmployeeAttendance } from '@/lib/attendance';
+import { ExtractionConfig, SourceReport } from '@/lib/excel-processor';
+import { getDb } from '@/lib/firebase';
+import { UserProfile, canSeeAllDepartments, filterRecordsForUser } from '@/lib/roles';
+import { normalizeDepartment } from '@/lib/schedule-policy';
+
+// Processed runs live in `runs/{runId}`, with one document per employee in `runs/{runId}/records` so a large run
+// stays under Firestore's 1 MiB document limit. Runs and records carry normalized department keys so department
+// heads can query (and the security rules can check) only what they are allowed to see.
+
+const RUNS_COLLECTION = 'runs';
+const RECORDS_COLLECTION = 'records';
+// Firestore allows 500 writes per batch.
+const BATCH_SIZE = 450;
+const HISTORY_LIMIT = 100;
+// Firestore limit on the values of an `in` / `array-contains-any` filter.
+const MAX_FILTER_VALUES = 30;
+
+export interface RunFile {
+  name: string;
+  size: number;
+  lastModified: number;
+}
+
+export interface RunAuthor {
+  uid: string;
+  email: string | null;
+}
+
+export interface AttendanceRun {
+  id: string;
+  createdAt: Date;
+  createdBy: RunAuthor | null;
+  files: RunFile[];
+  sources: SourceReport[];
+  config: ExtractionConfig;
+  employeeCount: number;
+}
+
+export type NewAttendanceRun = Omit<AttendanceRun, 'id' | 'createdAt' | 'employeeCount'> & {
+  records: EmployeeAttendance[];
+};
+
+function toRun(snapshot: QueryDocumentSnapshot<DocumentData> | { id: string; data: () => DocumentData }): AttendanceRun {
+  const data = snapshot.data();
+  return {
+    id: snapshot.id,
+    // A run read from the local cache right after saving has no server timestamp yet.
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    createdBy: data.createdBy ?? null,
+    files: data.files ?? [],
+    sources: data.sources ?? [],
+    config: data.config,
+    employeeCount: data.employeeCount ?? 0,
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Saves a run and its records, returning the new run id. The records are written first and the run document
+ * last, so the history never lists a run whose records are still being written.
+ */
+export async function saveRun(run: NewAttendanceRun): Promise<string> {
+  const db = getDb();
+  const runRef = doc(collection(db, RUNS_COLLECTION));
+  const { records, ...metadata } = run;
+
+  for (const [chunkIndex, recordChunk] of chunk(records, BATCH_SIZE).entries()) {
+    const batch = writeBatch(db);
+    recordChunk.forEach((record, i) => {
+      const order = chunkIndex * BATCH_SIZE + i;
+      const departmentKey = normalizeDepartment(record.employee.department);
+      batch.set(doc(runRef, RECORDS_COLLECTION, String(order).padStart(5, '0')), { order, departmentKey, ...record });
+    });
+    await batch.commit();
+  }
+
+  const departmentKeys = Array.from(new Set(records.map(r => normalizeDepartment(r.employee.department))));
+  await setDoc(runRef, { ...metadata, departmentKeys, employeeCount: records.length, createdAt: serverTimestamp() });
+
+  return runRef.id;
+}
+
+export async function listRuns(profile: UserProfile): Promise<AttendanceRun[]> {
+  const runs = collection(getDb(), RUNS_COLLECTION);
+  if (canSeeAllDepartments(profile)) {
+    const snapshot = await getDocs(query(runs, orderBy('createdAt', 'desc'), limit(HISTORY_LIMIT)));
+    return snapshot.docs.map(toRun);
+  }
+
+  if (profile.departmentKeys.length === 0) return [];
+  const snapshot = await getDocs(query(
+    runs,
+    where('departmentKeys', 'array-contains-any', profile.departmentKeys.slice(0, MAX_FILTER_VALUES)),
+    orderBy('createdAt', 'desc'),
+    limit(HISTORY_LIMIT),
+  ));
+  return snapshot.docs.map(toRun);
+}
+
+export async function getRun(runId: string): Promise<AttendanceRun | null> {
+  const snapshot = await getDoc(doc(getDb(), RUNS_COLLECTION, runId));
+  return snapshot.exists() ? toRun(snapshot) : null;
+}
+
+export async function loadRunRecords(runId: string, profile: UserProfile): Promise<EmployeeAttendance[]> {
+  const records = collection(getDb(), RUNS_COLLECTION, runId, RECORDS_COLLECTION);
+  if (!canSeeAllDepartments(profile) && profile.departmentKeys.length === 0) return [];
+
+  const snapshot = await getDocs(canSeeAllDepartments(profile)
+    ? query(records, orderBy('order'))
+    : query(records, where('departmentKey', 'in', profile.departmentKeys.slice(0, MAX_FILTER_VALUES)), orderBy('order')));
+  const loaded = snapshot.docs.map(d => {
+    const { order: _order, departmentKey: _departmentKey, ...record } = d.data();
+    return record as EmployeeAttendance;
+  });
+  return filterRecordsForUser(loaded, profile);
+}
+
+/**
+ * Writes the days, summary and corrections of a record changed after the run was saved, e.g. by a punch correction.
+ * The record is found by department, clock ID and name, as reading it back drops its document id.
+ */
+export async function updateRunRecord(runId: string, record: EmployeeAttendance): Promise<void> {
+  const records = collection(getDb(), RUNS_COLLECTION, runId, RECORDS_COLLECTION);
+  const snapshot = await getDocs(query(
+    records,
+    where('departmentKey', '==', normalizeDepartment(record.employee.department)),
+    where('employee.id', '==', record.employee.id),
+    where('employee.name', '==', record.employee.name),
+    limit(1),
+  ));
+  if (snapshot.empty) {
+    throw new Error('The employee record was not found in the saved run.');
+  }
+  await updateDoc(snapshot.docs[0].ref, { days: record.days, summary: record.summary, corrections: record.corrections ?? [] });
+}
+
+export async function deleteRun(runId: string): Promise<void> {
+  const db = getDb();
+  const runRef = doc(db, RUNS_COLLECTION, runId);
+
+  // Delete the run document first so the run disappears from the history even if removing its records is cut short.
+  await deleteDoc(runRef);
+
+  const records = await getDocs(collection(runRef, RECORDS_COLLECTION));
+  for (const recordChunk of chunk(records.docs, BATCH_SIZE)) {
+    const recordBatch = writeBatch(db);
+    recordChunk.forEach(record => recordBatch.delete(record.ref));
+    await recordBatch.commit();
+  }
+}
@@ -0,0 +1,191 @@
+// Weekday indices follow Date#getDay: 0 = domingo ... 6 = sábado.
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 0];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  0: 'Domingo',
+  1: 'Lunes',
+  2: 'Martes',
+  3: 'Miércoles',
+  4: 'Jueves',
+  5: 'Viernes',
+  6: 'Sábado',
+};
+
+export interface WorkSchedule {
+  requiredHours: Record<Weekday, number>;
+  // Minutes an employee may fall short of the required hours and still comply.
+  graceMinutes: number;
+  // Shifts start on one day and end on the next (e.g. 22:00 - 06:00).
+  overnight: boolean;
+  // Scheduled entry and exit as HH:MM; null when only the hours worked matter. An end before the start is on the
+  // next day.
+  startTime: string | null;
+  endTime: string | null;
+  // Minutes after startTime an entry still counts as on time.
+  lateToleranceMinutes: number;
+}
+
+export interface DepartmentOverride {
+  department: string;
+  requiredHours?: Partial<Record<Weekday, number>>;
+  graceMinutes?: number;
+  overnight?: boolean;
+  startTime?: string | null;
+  endTime?: string | null;
+  lateToleranceMinutes?: number;
+}
+
+// Overtime is paid on hours beyond each day's required hours and, when weeklyHours is set, on hours beyond that cap
+// within an ISO week (Monday to Sunday) not already paid as daily overtime.
+export interface OvertimePolicy {
+  // Weekly cap; 0 leaves only the daily overtime.
+  weeklyHours: number;
+  // Overtime hours paid double per day and per week; the rest is paid triple. 0 removes the limit.
+  doubleHoursPerDay: number;
+  doubleHoursPerWeek: number;
+}
+
+export type RoundingMode = 'none' | 'nearest' | 'up' | 'down';
+
+export const ROUNDING_MODES: RoundingMode[] = ['none', 'nearest', 'up', 'down'];
+
+export const ROUNDING_MODE_LABELS: Record<RoundingMode, string> = {
+  none: 'Sin redondeo',
+  nearest: 'Al más cercano',
+  up: 'Hacia arriba',
+  down: 'Hacia abajo',
+};
+
+export interface RoundingRule {
+  mode: RoundingMode;
+  intervalMinutes: number;
+  // Entries this many minutes past an interval mark, and exits this many minutes before one, snap to the mark
+  // whatever the mode.
+  graceMinutes: number;
+}
+
+// Rounding applied to punches before hours are computed; entries and exits are rounded separately.
+export interface RoundingPolicy {
+  entry: RoundingRule;
+  exit: RoundingRule;
+}
+
+export interface SchedulePolicy extends WorkSchedule {
+  departmentOverrides: DepartmentOverride[];
+  // Pair an entry left open at the end of a day with the first punch of the next day.
+  shiftAware: boolean;
+  // Late arrivals within a calendar month that add up to one absence ("3 retardos = 1 falta"); 0 disables the rule.
+  lateArrivalsPerAbsence: number;
+  overtime: OvertimePolicy;
+  rounding: RoundingPolicy;
+}
+
+export const DEFAULT_REQUIRED_HOURS = 7.75;
+
+// Double pay for up to 3 overtime hours a day and 9 a week, as in the Ley Federal del Trabajo.
+export const DEFAULT_OVERTIME_POLICY: OvertimePolicy = {
+  weeklyHours: 0,
+  doubleHoursPerDay: 3,
+  doubleHoursPerWeek: 9,
+};
+
+const NO_ROUNDING: RoundingRule = { mode: 'none', intervalMinutes: 15, graceMinutes: 0 };
+
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = { entry: NO_ROUNDING, exit: NO_ROUNDING };
+
+export const DEFAULT_SCHEDULE_POLICY: SchedulePolicy = {
+  requiredHours: {
+    0: DEFAULT_REQUIRED_HOURS,
+    1: DEFAULT_REQUIRED_HOURS,
+    2: DEFAULT_REQUIRED_HOURS,
+    3: DEFAULT_REQUIRED_HOURS,
+    4: DEFAULT_REQUIRED_HOURS,
+    5: DEFAULT_REQUIRED_HOURS,
+    6: DEFAULT_REQUIRED_HOURS,
+  },
+  graceMinutes: 0,
+  overnight: false,
+  startTime: null,
+  endTime: null,
+  lateToleranceMinutes: 0,
+  departmentOverrides: [],
+  shiftAware: false,
+  lateArrivalsPerAbsence: 0,
+  overtime: DEFAULT_OVERTIME_POLICY,
+  rounding: DEFAULT_ROUNDING_POLICY,
+};
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export function parseTime(value: string | null | undefined): number | null {
+  const match = value ? value.trim().match(TIME_PATTERN) : null;
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+}
+
+/**
+ * Reads a shift written as free text, as in the employee directory: "08:00-17:00", "8:30 a 17:30" or "9-18".
+ * Returns null when the text has no recognizable start and end.
+ */
+export function parseShiftText(text: string | null | undefined): { startTime: string; endTime: string } | null {
+  const match = (text ?? '').match(/(\d{1,2})(?::(\d{2}))?\s*(?:-|–|a|al|to)\s*(\d{1,2})(?::(\d{2}))?/i);
+  if (!match) return null;
+  const format = (h: string, m: string | undefined) => `${h.padStart(2, '0')}:${m ?? '00'}`;
+  const startTime = format(match[1], match[2]);
+  const endTime = format(match[3], match[4]);
+  return parseTime(startTime) !== null && parseTime(endTime) !== null ? { startTime, endTime } : null;
+}
+
+// Departments are matched ignoring case and surrounding spaces, as clock exports are not consistent about either.
+export function normalizeDepartment(department: unknown): string {
+  return department === null || department === undefined ? '' : String(department).trim().toLowerCase();
+}
+
+/**
+ * Schedule of an employee of `department`. `shift` is the employee's own shift from the directory (e.g.
+ * "08:00-17:00"); when it can be read it replaces the start and end times of the policy.
+ */
+export function resolveSchedule(policy: SchedulePolicy, department: unknown, shift?: string): WorkSchedule {
+  const key = normalizeDepartment(department);
+  const override = key ? policy.departmentOverrides.find(o => normalizeDepartment(o.department) === key) : undefined;
+  const employeeShift = parseShiftText(shift);
+
+  // Policies saved before shift times existed have no startTime, endTime or lateToleranceMinutes.
+  const base: WorkSchedule = {
+    requiredHours: policy.requiredHours,
+    graceMinutes: policy.graceMinutes,
+    overnight: policy.overnight,
+    startTime: employeeShift?.startTime ?? override?.startTime ?? policy.startTime ?? null,
+    endTime: employeeShift?.endTime ?? override?.endTime ?? policy.endTime ?? null,
+    lateToleranceMinutes: override?.lateToleranceMinutes ?? policy.lateToleranceMinutes ?? 0,
+  };
+
+  if (!override) {
+    return base;
+  }
+
+  const requiredHours = { ...policy.requiredHours };
+  for (const weekday of WEEKDAYS) {
+    const hours = override.requiredHours?.[weekday];
+    if (hours !== undefined) requiredHours[weekday] = hours;
+  }
+
+  return {
+    ...base,
+    requiredHours,
+    graceMinutes: override.graceMinutes ?? policy.graceMinutes,
+    overnight: override.overnight ?? policy.overnight,
+  };
+}
+
+export function getRequiredHours(policy: SchedulePolicy, department: unknown, date: Date): number {
+  return resolveSchedule(policy, department).requiredHours[date.getDay() as Weekday];
+}
+
+export function meetsRequiredHours(policy: SchedulePolicy, department: unknown, date: Date, hours: number): boolean {
+  const schedule = resolveSchedule(policy, department);
+  const requiredMinutes = schedule.requiredHours[date.getDay() as Weekday] * 60;
+  // Compare in whole minutes so values like 7.75 survive the toFixed(2) rounding of worked hours.
+  return Math.round(hours * 60) + schedule.graceMinutes >= Math.round(requiredMinutes);
+}
@@ -0,0 +1,59 @@
+import { App, getApps, initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { DocumentData, getFirestore } from 'firebase-admin/firestore';
+import { UserProfile, hasRole } from '@/lib/roles';
+
+// Verifies Firebase ID tokens sent to the API routes. Credentials come from the environment (Application Default
+// Credentials on App Hosting); FIREBASE_AUTH_EMULATOR_HOST and FIRESTORE_EMULATOR_HOST point it at the emulators.
+
+function getAdminApp(): App {
+  return getApps()[0] ?? initializeApp({ projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID });
+}
+
+export type RequestAuthResult =
+  | { profile: UserProfile & { role: NonNullable<UserProfile['role']> } }
+  | { error: 'unauthenticated' | 'forbidden' | 'unavailable'; message: string };
+
+/**
+ * Resolves the profile of the caller from an `Authorization: Bearer <Firebase ID token>` header. Callers without a
+ * valid token are unauthenticated; signed-in users without a role are forbidden. When the profile cannot be read
+ * from Firestore the result is unavailable.
+ */
+export async function authenticateRequest(request: Request): Promise<RequestAuthResult> {
+  const header = request.headers.get('authorization') ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return { error: 'unauthenticated', message: 'Missing "Authorization: Bearer <Firebase ID token>" header.' };
+  }
+
+  let uid: string;
+  let email: string | null;
+  try {
+    const token = await getAuth(getAdminApp()).verifyIdToken(match[1]);
+    uid = token.uid;
+    email = token.email ?? null;
+  } catch {
+    return { error: 'unauthenticated', message: 'The ID token is invalid or expired.' };
+  }
+
+  let data: DocumentData | undefined;
+  try {
+    const snapshot = await getFirestore(getAdminApp()).collection('users').doc(uid).get();
+    data = snapshot.data();
+  } catch (error) {
+    console.error('Could not read the user profile:', error);
+    return { error: 'unavailable', message: 'The user profile could not be read. Try again later.' };
+  }
+  const profile: UserProfile = {
+    uid,
+    email,
+    role: data?.role ?? null,
+    departments: data?.departments ?? [],
+    departmentKeys: data?.departmentKeys ?? [],
+  };
+
+  if (!hasRole(profile)) {
+    return { error: 'forbidden', message: 'The account has no role assigned.' };
+  }
+  return { profile };
+}
@@ -0,0 +1,47 @@
+import { User } from 'firebase/auth';
+import { DocumentData, collection, doc, getDoc, getDocs, orderBy, query, setDoc, updateDoc } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { UserProfile, UserRole, getDepartmentKeys } from '@/lib/roles';
+
+const USERS_COLLECTION = 'users';
+
+function toProfile(uid: string, data: DocumentData): UserProfile {
+  return {
+    uid,
+    email: data.email ?? null,
+    role: data.role ?? null,
+    departments: data.departments ?? [],
+    departmentKeys: data.departmentKeys ?? [],
+  };
+}
+
+/**
+ * Returns the profile of a signed-in user, creating it without a role on their first sign-in so an admin can
+ * find them in the user list and assign one.
+ */
+export async function ensureUserProfile(user: User): Promise<UserProfile> {
+  const ref = doc(getDb(), USERS_COLLECTION, user.uid);
+  const snapshot = await getDoc(ref);
+  if (snapshot.exists()) {
+    return toProfile(user.uid, snapshot.data());
+  }
+
+  const profile: UserProfile = { uid: user.uid, email: user.email, role: null, departments: [], departmentKeys: [] };
+  const { uid: _uid, ...data } = profile;
+  await setDoc(ref, data);
+  return profile;
+}
+
+export async function listUserProfiles(): Promise<UserProfile[]> {
+  const snapshot = await getDocs(query(collection(getDb(), USERS_COLLECTION), orderBy('email')));
+  return snapshot.docs.map(d => toProfile(d.id, d.data()));
+}
+
+export async function updateUserAccess(uid: string, role: UserRole | null, departments: string[]): Promise<void> {
+  const cleaned = Array.from(new Set(departments.map(d => d.trim()).filter(Boolean)));
+  await updateDoc(doc(getDb(), USERS_COLLECTION, uid), {
+    role,
+    departments: cleaned,
+    departmentKeys: getDepartmentKeys(cleaned),
+  });
+}
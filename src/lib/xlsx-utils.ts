@@ -0,0 +1,327 @@
+import * as XLSX from 'xlsx';
+import { DepartmentSummary, EmployeeAttendance, summarizeByDepartment } from '@/lib/attendance';
+import { AttendanceColumn, CellTone, buildAttendanceColumns } from '@/lib/attendance-table';
+import { CORRECTION_LOG_HEADERS, buildCorrectionLog, hasCorrections } from '@/lib/punch-corrections';
+
+// The community build of SheetJS writes values, number formats and column widths but drops cell fills,
+// fonts and frozen panes. We let it write the workbook and then patch styles.xml and the sheet XML in
+// the zip through its bundled CFB container library.
+
+interface CellStyle {
+  fill?: string;
+  fontColor?: string;
+  bold?: boolean;
+  // Built-in Excel number format id (2 = "0.00", 10 = "0.00%").
+  numFmtId?: number;
+  wrap?: boolean;
+}
+
+interface SheetStyling {
+  // Cell reference (e.g. "B3") -> index into the styles registered for the workbook.
+  cellStyles: Map<string, number>;
+  frozenRows: number;
+  frozenColumns: number;
+}
+
+const HOURS_FORMAT = 2;
+const PERCENT_FORMAT = 10;
+
+// Light variants of the colours used by getStyles() in html-utils, so the sheet also prints well.
+const TONE_STYLES: Record<CellTone, CellStyle> = {
+  'no-registro': { fill: 'FEE2E2', fontColor: '991B1B', bold: true },
+  'registro-incompleto': { fill: 'FFEDD5', fontColor: '9A3412', bold: true },
+  'horas-insuficientes': { fontColor: 'C2410C', bold: true, numFmtId: HOURS_FORMAT },
+  'horas-normales': { fontColor: '15803D', numFmtId: HOURS_FORMAT },
+  'dias-cumplidos': { fill: 'DCFCE7', fontColor: '15803D', bold: true },
+  'dias-incumplidos': { fill: 'FEE2E2', fontColor: 'B91C1C', bold: true },
+  'directorio-alerta': { fill: 'FEF9C3', fontColor: '854D0E', wrap: true },
+  'dia-no-laborable': { fill: 'F1F5F9', fontColor: '475569' },
+  'justificado': { fill: 'E0F2FE', fontColor: '0369A1', bold: true },
+  'dias-justificados': { fill: 'E0F2FE', fontColor: '0369A1', bold: true },
+  'retardo': { fontColor: 'B45309' },
+  'retardos': { fill: 'FEF3C7', fontColor: 'B45309', bold: true },
+};
+
+const HEADER_STYLE: CellStyle = { fill: '374151', fontColor: 'F9FAFB', bold: true, wrap: true };
+
+class StyleRegistry {
+  readonly styles: CellStyle[] = [];
+  private readonly keys = new Map<string, number>();
+
+  register(style: CellStyle): number {
+    const key = JSON.stringify(style);
+    let index = this.keys.get(key);
+    if (index === undefined) {
+      index = this.styles.length;
+      this.styles.push(style);
+      this.keys.set(key, index);
+    }
+    return index;
+  }
+}
+
+function getCount(xml: string, tag: string): number {
+  const m = xml.match(new RegExp(`<${tag} count="(\\d+)"`));
+  return m ? parseInt(m[1], 10) : 0;
+}
+
+function appendToList(xml: string, tag: string, items: string[]): string {
+  if (items.length === 0) return xml;
+  const count = getCount(xml, tag) + items.length;
+  return xml
+    .replace(new RegExp(`<${tag} count="\\d+"`), `<${tag} count="${count}"`)
+    .replace(`</${tag}>`, `${items.join('')}</${tag}>`);
+}
+
+// Appends fonts, fills and cell formats for every registered style and returns the patched XML along with
+// the cellXfs index of each style.
+function patchStylesXml(xml: string, styles: CellStyle[]): { xml: string; xfIndices: number[] } {
+  const fontBase = getCount(xml, 'fonts');
+  const fillBase = getCount(xml, 'fills');
+  const xfBase = getCount(xml, 'cellXfs');
+
+  const fonts: string[] = [];
+  const fills: string[] = [];
+  const xfs: string[] = [];
+
+  const addOnce = (list: string[], base: number, entry: string) => {
+    const existing = list.indexOf(entry);
+    if (existing >= 0) return base + existing;
+    list.push(entry);
+    return base + list.length - 1;
+  };
+
+  styles.forEach((style) => {
+    const fontId = style.fontColor || style.bold
+      ? addOnce(fonts, fontBase, `<font>${style.bold ? '<b/>' : ''}<sz val="11"/>${style.fontColor ? `<color rgb="FF${style.fontColor}"/>` : ''}<name val="Calibri"/><family val="2"/></font>`)
+      : 0;
+    const fillId = style.fill
+      ? addOnce(fills, fillBase, `<fill><patternFill patternType="solid"><fgColor rgb="FF${style.fill}"/><bgColor indexed="64"/></patternFill></fill>`)
+      : 0;
+
+    const numFmtId = style.numFmtId ?? 0;
+    const alignment = style.wrap ? '<alignment vertical="top" wrapText="1"/>' : '';
+    xfs.push(
+      `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="0" xfId="0"` +
+      `${numFmtId ? ' applyNumberFormat="1"' : ''}${fontId ? ' applyFont="1"' : ''}${fillId ? ' applyFill="1"' : ''}` +
+      (alignment ? ` applyAlignment="1">${alignment}</xf>` : '/>'),
+    );
+  });
+
+  let patched = appendToList(xml, 'fonts', fonts);
+  patched = appendToList(patched, 'fills', fills);
+  patched = appendToList(patched, 'cellXfs', xfs);
+
+  return { xml: patched, xfIndices: styles.map((_, i) => xfBase + i) };
+}
+
+function patchSheetXml(xml: string, styling: SheetStyling, xfIndices: number[]): string {
+  let patched = xml.replace(/<c r="([A-Z]+\d+)"( s="\d+")?/g, (match, ref: string) => {
+    const style = styling.cellStyles.get(ref);
+    return style === undefined ? match : `<c r="${ref}" s="${xfIndices[style]}"`;
+  });
+
+  if (styling.frozenRows > 0 || styling.frozenColumns > 0) {
+    const topLeftCell = XLSX.utils.encode_cell({ r: styling.frozenRows, c: styling.frozenColumns });
+    const pane = `<pane${styling.frozenColumns ? ` xSplit="${styling.frozenColumns}"` : ''}${styling.frozenRows ? ` ySplit="${styling.frozenRows}"` : ''}` +
+      ` topLeftCell="${topLeftCell}" activePane="bottomRight" state="frozen"/>`;
+    patched = patched.replace(/<sheetView([^>]*?)\/>/, `<sheetView$1>${pane}</sheetView>`);
+  }
+
+  return patched;
+}
+
+function applyStyling(data: Uint8Array, sheets: SheetStyling[], registry: StyleRegistry): Uint8Array {
+  const zip = XLSX.CFB.read(data, { type: 'array' });
+  const decoder = new TextDecoder('utf-8');
+  const encoder = new TextEncoder();
+
+  const stylesEntry = XLSX.CFB.find(zip, '/xl/styles.xml');
+  const { xml: stylesXml, xfIndices } = patchStylesXml(decoder.decode(stylesEntry.content), registry.styles);
+  stylesEntry.content = encoder.encode(stylesXml);
+
+  sheets.forEach((styling, i) => {
+    const entry = XLSX.CFB.find(zip, `/xl/worksheets/sheet${i + 1}.xml`);
+    entry.content = encoder.encode(patchSheetXml(decoder.decode(entry.content), styling, xfIndices));
+  });
+
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' }));
+}
+
+function columnWidth(column: AttendanceColumn): number {
+  switch (column.kind) {
+    case 'employee':
+      return column.id === 'name' || column.id === 'sources' ? 28 : 16;
+    case 'punches':
+      return 14;
+    default:
+      return 12;
+  }
+}
+
+// Besides the per-day hours, the average, the unrounded total and every overtime column hold hours.
+function isHoursColumn(column: AttendanceColumn): boolean {
+  return column.kind === 'hours' || column.kind === 'break' || column.id === 'averageHours' || column.id === 'rawTotalHours' || /overtime/i.test(column.id);
+}
+
+function buildDetailSheet(records: EmployeeAttendance[], registry: StyleRegistry): { sheet: XLSX.WorkSheet; styling: SheetStyling } {
+  const columns = buildAttendanceColumns(records);
+  const rows = [
+    columns.map(c => c.header),
+    ...records.map(record => columns.map(c => c.getValue(record))),
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = columns.map(c => ({ wch: columnWidth(c) }));
+  sheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: records.length, c: columns.length - 1 } }) };
+
+  const cellStyles = new Map<string, number>();
+  const headerStyle = registry.register(HEADER_STYLE);
+  columns.forEach((_, c) => cellStyles.set(XLSX.utils.encode_cell({ r: 0, c }), headerStyle));
+
+  records.forEach((record, i) => {
+    columns.forEach((column, c) => {
+      const tone = column.getTone(record);
+      const value = column.getValue(record);
+      let style: CellStyle | null = tone ? { ...TONE_STYLES[tone] } : null;
+
+      if (typeof value === 'number' && isHoursColumn(column)) {
+        style = { ...style, numFmtId: HOURS_FORMAT };
+      } else if (style && typeof value !== 'number') {
+        delete style.numFmtId;
+      }
+      if (column.kind === 'punches') {
+        style = { ...style, wrap: true };
+      }
+
+      if (style) {
+        cellStyles.set(XLSX.utils.encode_cell({ r: i + 1, c }), registry.register(style));
+      }
+    });
+  });
+
+  // Keep the header and the employee columns (ID, Nombre, ...) visible while scrolling.
+  const frozenColumns = columns.filter(c => c.kind === 'employee').length;
+  return { sheet, styling: { cellStyles, frozenRows: 1, frozenColumns } };
+}
+
+function buildSummarySheet(records: EmployeeAttendance[], registry: StyleRegistry): { sheet: XLSX.WorkSheet; styling: SheetStyling } {
+  const toRow = (d: DepartmentSummary) => [
+    d.department,
+    d.employees,
+    d.compliantDays,
+    d.nonCompliantDays,
+    d.justifiedDays,
+    d.totalHours,
+    d.averageHours,
+    d.complianceRate,
+  ];
+
+  const header = ['Departamento', 'Empleados', 'Días Cumplidos', 'Días Incumplidos', 'Días Justificados', 'Horas Totales', 'Horas/Día', '% Cumplimiento'];
+  const rows = [header, ...summarizeByDepartment(records).map(toRow)];
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [{ wch: 28 }, ...header.slice(1).map(() => ({ wch: 16 }))];
+
+  const cellStyles = new Map<string, number>();
+  const headerStyle = registry.register(HEADER_STYLE);
+  header.forEach((_, c) => cellStyles.set(XLSX.utils.encode_cell({ r: 0, c }), headerStyle));
+
+  rows.slice(1).forEach((_, i) => {
+    const r = i + 1;
+    const bold = r === rows.length - 1;
+    cellStyles.set(XLSX.utils.encode_cell({ r, c: 0 }), registry.register({ bold }));
+    cellStyles.set(XLSX.utils.encode_cell({ r, c: 2 }), registry.register({ ...TONE_STYLES['dias-cumplidos'], bold: true }));
+    cellStyles.set(XLSX.utils.encode_cell({ r, c: 3 }), registry.register({ ...TONE_STYLES['dias-incumplidos'], bold: true }));
+    cellStyles.set(XLSX.utils.encode_cell({ r, c: 4 }), registry.register({ ...TONE_STYLES['dias-justificados'], bold: true }));
+    cellStyles.set(XLSX.utils.encode_cell({ r, c: 5 }), registry.register({ bold, numFmtId: HOURS_FORMAT }));
+    cellStyles.set(XLSX.utils.encode_cell({ r, c: 6 }), registry.register({ bold, numFmtId: HOURS_FORMAT }));
+    cellStyles.set(XLSX.utils.encode_cell({ r, c: 7 }), registry.register({ bold, numFmtId: PERCENT_FORMAT }));
+  });
+
+  return { sheet, styling: { cellStyles, frozenRows: 1, frozenColumns: 1 } };
+}
+
+// One row per employee and ISO week with overtime.
+function buildOvertimeSheet(records: EmployeeAttendance[], registry: StyleRegistry): { sheet: XLSX.WorkSheet; styling: SheetStyling } {
+  const header = ['ID', 'Nombre', 'Departamento', 'Semana', 'Desde', 'Horas Trabajadas', 'Extra Diaria', 'Extra Semanal', 'Dobles', 'Triples'];
+  const rows = [
+    header,
+    ...records.flatMap(r => (r.summary.overtimeWeeks ?? [])
+      .filter(w => w.dailyOvertimeHours + w.weeklyOvertimeHours > 0)
+      .map(w => [
+        r.employee.id,
+        r.employee.name,
+        r.employee.department,
+        w.week,
+        w.startDate,
+        w.workedHours,
+        w.dailyOvertimeHours,
+        w.weeklyOvertimeHours,
+        w.doubleHours,
+        w.tripleHours,
+      ])),
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = header.map((_, c) => ({ wch: c === 1 ? 28 : 14 }));
+
+  const cellStyles = new Map<string, number>();
+  const headerStyle = registry.register(HEADER_STYLE);
+  const hoursStyle = registry.register({ numFmtId: HOURS_FORMAT });
+  header.forEach((_, c) => cellStyles.set(XLSX.utils.encode_cell({ r: 0, c }), headerStyle));
+  rows.slice(1).forEach((_, i) => {
+    for (let c = 5; c < header.length; c++) {
+      cellStyles.set(XLSX.utils.encode_cell({ r: i + 1, c }), hoursStyle);
+    }
+  });
+
+  return { sheet, styling: { cellStyles, frozenRows: 1, frozenColumns: 2 } };
+}
+
+// The punch corrections log, one row per change.
+function buildCorrectionsSheet(records: EmployeeAttendance[], registry: StyleRegistry): { sheet: XLSX.WorkSheet; styling: SheetStyling } {
+  const rows = [CORRECTION_LOG_HEADERS, ...buildCorrectionLog(records)];
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = CORRECTION_LOG_HEADERS.map((_, c) => ({ wch: c === 1 || c === 6 ? 36 : c === 7 || c === 8 ? 26 : 16 }));
+
+  const cellStyles = new Map<string, number>();
+  const headerStyle = registry.register(HEADER_STYLE);
+  CORRECTION_LOG_HEADERS.forEach((_, c) => cellStyles.set(XLSX.utils.encode_cell({ r: 0, c }), headerStyle));
+
+  return { sheet, styling: { cellStyles, frozenRows: 1, frozenColumns: 2 } };
+}
+
+export function buildXlsxWorkbook(data: EmployeeAttendance[]): Uint8Array {
+  const registry = new StyleRegistry();
+  const detail = buildDetailSheet(data, registry);
+  const summary = buildSummarySheet(data, registry);
+  const sheets = [{ name: 'Detalle', ...detail }, { name: 'Resumen', ...summary }];
+  if (data.some(r => r.summary.overtimeHours > 0)) {
+    sheets.push({ name: 'Horas Extra', ...buildOvertimeSheet(data, registry) });
+  }
+  if (hasCorrections(data)) {
+    sheets.push({ name: 'Correcciones', ...buildCorrectionsSheet(data, registry) });
+  }
+
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(({ name, sheet }) => XLSX.utils.book_append_sheet(workbook, sheet, name));
+
+  const written: ArrayBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return applyStyling(new Uint8Array(written), sheets.map(s => s.styling), registry);
+}
+
+export function exportToXlsx(data: EmployeeAttendance[], filename: string) {
+  if (!data || data.length === 0) {
+    return;
+  }
+
+  const blob = new Blob([buildXlsxWorkbook(data)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const link = document.createElement('a');
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+}